@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { normalizeApplicationNumber } from "@/lib/application-number"
+import { refreshPayment } from "@/lib/application-payment"
+import { findApplication, nextSequence, saveApplication, withApplicationLock } from "@/lib/application-repository"
+import { getPaymentProvider } from "@/lib/payments"
+
+// Checks on a pending payment; a no-op for anything else
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const applicationId = normalizeApplicationNumber(id)
+    return await withApplicationLock(applicationId, async () => {
+      const application = await findApplication(applicationId)
+      if (!application) {
+        return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+      }
+
+      const updated = await refreshPayment(application, { provider: getPaymentProvider(), nextSequence })
+      if (updated !== application) await saveApplication(updated)
+      return NextResponse.json(updated)
+    })
+  } catch (error) {
+    console.error("Error refreshing payment status:", error)
+    return NextResponse.json({ error: "Unable to check payment status" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { normalizeApplicationNumber } from "@/lib/application-number"
+import { PaymentNotAllowedError, payApplication } from "@/lib/application-payment"
+import { findApplication, nextSequence, saveApplication, withApplicationLock } from "@/lib/application-repository"
+import { getPaymentProvider, PaymentError } from "@/lib/payments"
+import { cardDetailsSchema } from "@/lib/payments/card"
+
+const paymentRequestSchema = z.object({
+  card: cardDetailsSchema,
+  idempotencyKey: z.string().trim().min(8, "Idempotency key is required").max(100),
+})
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const parsed = paymentRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Payment failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const applicationId = normalizeApplicationNumber(id)
+    return await withApplicationLock(applicationId, async () => {
+      const application = await findApplication(applicationId)
+      if (!application) {
+        return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+      }
+
+      const updated = await payApplication(application, parsed.data, { provider: getPaymentProvider(), nextSequence })
+      if (updated !== application) await saveApplication(updated)
+      return NextResponse.json(updated)
+    })
+  } catch (error) {
+    if (error instanceof PaymentNotAllowedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error paying application fees:", error)
+    return NextResponse.json({ error: "Unable to process payment" }, { status: 500 })
+  }
+}
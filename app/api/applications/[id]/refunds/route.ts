@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { normalizeApplicationNumber } from "@/lib/application-number"
+import { PaymentNotAllowedError, refundApplication } from "@/lib/application-payment"
+import { findApplication, saveApplication, withApplicationLock } from "@/lib/application-repository"
+import { getPaymentProvider, PaymentError } from "@/lib/payments"
+import { authenticateStaff } from "@/lib/staff-auth"
+
+const refundRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500, "Reason must be less than 500 characters"),
+  idempotencyKey: z.string().trim().min(8, "Idempotency key is required").max(100),
+})
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  // Refunds are issued by building department staff, not applicants
+  if (!authenticateStaff(request)) {
+    return NextResponse.json(
+      { error: "Staff sign-in is required" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const parsed = refundRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Refund failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const applicationId = normalizeApplicationNumber(id)
+    return await withApplicationLock(applicationId, async () => {
+      const application = await findApplication(applicationId)
+      if (!application) {
+        return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+      }
+
+      const updated = await refundApplication(application, parsed.data, { provider: getPaymentProvider() })
+      if (updated !== application) await saveApplication(updated)
+      return NextResponse.json(updated)
+    })
+  } catch (error) {
+    if (error instanceof PaymentNotAllowedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error refunding application fees:", error)
+    return NextResponse.json({ error: "Unable to refund payment" }, { status: 500 })
+  }
+}
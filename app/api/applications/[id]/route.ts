@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { validateApplicationNumber } from "@/lib/application-number"
+import { findApplication } from "@/lib/application-repository"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const check = validateApplicationNumber(id)
+  if (!check.ok) {
+    return NextResponse.json({ error: check.message }, { status: 400 })
+  }
+
+  try {
+    const application = await findApplication(check.value)
+    if (!application) {
+      return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json(application)
+  } catch (error) {
+    console.error("Error reading application:", error)
+    return NextResponse.json({ error: "Unable to read application" }, { status: 500 })
+  }
+}
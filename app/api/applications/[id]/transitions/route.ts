@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { applicationStatusSchema } from "@/lib/application"
+import { normalizeApplicationNumber } from "@/lib/application-number"
+import { findApplication, saveApplication, withApplicationLock } from "@/lib/application-repository"
+import { InvalidStatusTransitionError, transitionApplication } from "@/lib/application-status"
+import { authenticateStaff } from "@/lib/staff-auth"
+
+const transitionRequestSchema = z.object({
+  to: applicationStatusSchema,
+  note: z.string().trim().max(500, "Note must be less than 500 characters").optional(),
+})
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  // Only building department staff move applications through review, and the
+  // history records who they are rather than whatever the request claims
+  const staff = authenticateStaff(request)
+  if (!staff) {
+    return NextResponse.json(
+      { error: "Staff sign-in is required" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const parsed = transitionRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Transition failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const applicationId = normalizeApplicationNumber(id)
+    return await withApplicationLock(applicationId, async () => {
+      const application = await findApplication(applicationId)
+      if (!application) {
+        return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+      }
+
+      const { to, note } = parsed.data
+      const updated = transitionApplication(application, to, { actor: staff.name, note: note || undefined })
+      await saveApplication(updated)
+      return NextResponse.json(updated)
+    })
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error("Error transitioning application:", error)
+    return NextResponse.json({ error: "Unable to update application status" }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { lookupPennsylvaniaZip } from "@/lib/address"
+import { buildingPermitSchema } from "@/lib/application"
+import {
+  applicationExists,
+  deleteAttachment,
+  listAttachments,
+  municipalityCode,
+  nextSequence,
+  saveApplication,
+  saveAttachment,
+} from "@/lib/application-repository"
+import { submitApplication } from "@/lib/application-status"
+import { MissingDocumentsError } from "@/lib/attachments"
+
+// The form plus the draft whose uploaded documents go with it
+const submissionSchema = z.object({
+  form: z.unknown(),
+  draftId: z.string().min(1, "Draft ID is required"),
+})
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const submission = submissionSchema.safeParse(body)
+  if (!submission.success) {
+    return NextResponse.json(
+      { error: "Submission failed validation", issues: z.flattenError(submission.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const parsed = buildingPermitSchema.safeParse(submission.data.form)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Application failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const zip = await lookupPennsylvaniaZip(parsed.data.propertyAddress.zip)
+  if (!zip.ok) {
+    return NextResponse.json(
+      { error: "Application failed validation", issues: { propertyAddress: [zip.message] } },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const application = await submitApplication(parsed.data, submission.data.draftId, {
+      attachments: { list: listAttachments, save: saveAttachment, delete: deleteAttachment },
+      municipalityCode,
+      nextSequence,
+      exists: applicationExists,
+      save: saveApplication,
+    })
+    return NextResponse.json(application, { status: 201 })
+  } catch (error) {
+    if (error instanceof MissingDocumentsError) {
+      return NextResponse.json(
+        { error: "Application failed validation", issues: { attachments: [error.message] } },
+        { status: 400 },
+      )
+    }
+    console.error("Error saving application:", error)
+    return NextResponse.json({ error: "Unable to save application" }, { status: 500 })
+  }
+}
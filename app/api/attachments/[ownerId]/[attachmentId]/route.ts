@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { validateApplicationNumber } from "@/lib/application-number"
+import { deleteAttachment } from "@/lib/application-repository"
+import { isDraftId } from "@/lib/drafts"
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ ownerId: string; attachmentId: string }> },
+) {
+  const { ownerId, attachmentId } = await params
+
+  // A submitted application's documents are part of what was signed
+  if (!isDraftId(ownerId) || validateApplicationNumber(ownerId).ok) {
+    return NextResponse.json({ error: "Documents can only be removed from a draft" }, { status: 409 })
+  }
+
+  try {
+    await deleteAttachment(ownerId, attachmentId)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Error deleting attachment:", error)
+    return NextResponse.json({ error: "Unable to delete attachment" }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { attachmentSchema } from "@/lib/application"
+import { validateApplicationNumber } from "@/lib/application-number"
+import { listAttachments, saveAttachment } from "@/lib/application-repository"
+import { attachmentProblem, countPdfPages, dataUrlToBinary, isDocumentCategory } from "@/lib/attachments"
+import { isDraftId } from "@/lib/drafts"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ ownerId: string }> }) {
+  const { ownerId } = await params
+
+  try {
+    return NextResponse.json(await listAttachments(ownerId))
+  } catch (error) {
+    console.error("Error listing attachments:", error)
+    return NextResponse.json({ error: "Unable to read attachments" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ ownerId: string }> }) {
+  const { ownerId } = await params
+
+  // Documents are uploaded to a draft and copied to the application when it's
+  // submitted. A submitted application's documents are part of what was signed,
+  // and one that hasn't been issued yet mustn't collect documents from strangers.
+  if (!isDraftId(ownerId) || validateApplicationNumber(ownerId).ok) {
+    return NextResponse.json({ error: "Documents can only be added to a draft" }, { status: 409 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const parsed = attachmentSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Attachment failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+  if (parsed.data.ownerId !== ownerId) {
+    return NextResponse.json({ error: "Attachment owner does not match the request path" }, { status: 400 })
+  }
+  if (!isDocumentCategory(parsed.data.category)) {
+    return NextResponse.json({ error: `Unknown document category "${parsed.data.category}"` }, { status: 400 })
+  }
+  // Check the decoded file rather than the sizes the client reported
+  let binary: string
+  try {
+    binary = dataUrlToBinary(parsed.data.dataUrl)
+  } catch {
+    return NextResponse.json({ error: "Attachment data must be base64 encoded" }, { status: 400 })
+  }
+  const problem = attachmentProblem({
+    mimeType: parsed.data.mimeType,
+    size: binary.length,
+    pages: parsed.data.mimeType === "application/pdf" ? countPdfPages(binary) : null,
+  })
+  if (problem) {
+    return NextResponse.json({ error: problem }, { status: 400 })
+  }
+
+  try {
+    const attachment = { ...parsed.data, size: binary.length }
+    await saveAttachment(attachment)
+    return NextResponse.json(attachment, { status: 201 })
+  } catch (error) {
+    console.error("Error saving attachment:", error)
+    return NextResponse.json({ error: "Unable to save attachment" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { BUNDLE_SIGNATURE_ALGORITHM, signBundlePayload } from "@/lib/bundle-signing"
+
+const signRequestSchema = z.object({ payload: z.record(z.string(), z.unknown()) })
+
+// Signs the payload of an export bundle
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const parsed = signRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Bundle failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const value = signBundlePayload(parsed.data.payload)
+  if (!value) {
+    console.error("BUNDLE_SIGNING_KEY is not set; exports can't be signed")
+    return NextResponse.json({ error: "Exports aren't available on this server" }, { status: 503 })
+  }
+  return NextResponse.json({ algorithm: BUNDLE_SIGNATURE_ALGORITHM, value })
+}
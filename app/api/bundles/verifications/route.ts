@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { verifyBundlePayload } from "@/lib/bundle-signing"
+
+const verifyRequestSchema = z.object({
+  payload: z.record(z.string(), z.unknown()),
+  signature: z.string().regex(/^[0-9a-f]+$/i, "Signature must be hexadecimal"),
+})
+
+// Checks an imported bundle's payload against its signature
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const parsed = verifyRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Bundle failed validation", issues: z.flattenError(parsed.error).fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const valid = verifyBundlePayload(parsed.data.payload, parsed.data.signature)
+  if (valid === null) {
+    console.error("BUNDLE_SIGNING_KEY is not set; imports can't be verified")
+    return NextResponse.json({ error: "Imports aren't available on this server" }, { status: 503 })
+  }
+  return NextResponse.json({ valid })
+}
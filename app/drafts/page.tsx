@@ -0,0 +1,293 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { announceDraftDeleted } from "@/hooks/use-draft-sync"
+import { Copy, Download, FileText, FolderOpen, Play, Plus, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import type { Draft } from "@/lib/application"
+import { deleteAttachments } from "@/lib/attachments"
+import { applyImport, bundleFileName, createBundle, parseBundle, previewImport, type ImportPreview } from "@/lib/bundle"
+import { draftTitle, duplicateDraft } from "@/lib/drafts"
+import { getRepository } from "@/lib/storage"
+import { stepAt, stepNumber, WIZARD_STEPS } from "@/lib/wizard"
+
+export default function Drafts() {
+  const [drafts, setDrafts] = useState<Draft[] | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = async () => {
+    const { drafts, quarantined } = await getRepository().drafts.list()
+    setDrafts(drafts)
+    if (quarantined > 0) {
+      toast.warning(`${quarantined} unreadable draft${quarantined === 1 ? " was" : "s were"} set aside`)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+
+  const handleDuplicate = async (draft: Draft) => {
+    const copy = await duplicateDraft(getRepository().drafts, draft.id)
+    if (copy) {
+      toast.success(`Created "${draftTitle(copy)}"`)
+    } else {
+      toast.error("That draft couldn't be copied")
+    }
+    await refresh()
+  }
+
+  const handleDelete = async (draft: Draft) => {
+    await getRepository().drafts.delete(draft.id)
+    await deleteAttachments(getRepository().attachments, draft.id)
+    announceDraftDeleted(draft.id)
+    toast.success(`Deleted "${draftTitle(draft)}"`)
+    await refresh()
+  }
+
+  const handleExport = async () => {
+    try {
+      const bundle = await createBundle(getRepository())
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = bundleFileName(bundle)
+      link.click()
+      URL.revokeObjectURL(url)
+      const { drafts, applications } = bundle.payload
+      toast.success(
+        `Exported ${drafts.length} draft${drafts.length === 1 ? "" : "s"} and ${applications.length} application${applications.length === 1 ? "" : "s"}`,
+      )
+    } catch (error) {
+      console.error("[v0] Error exporting applications:", error)
+      toast.error("We couldn't export your applications. Please try again.")
+    }
+  }
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return
+    const result = await parseBundle(await file.text())
+    if (!result.ok) {
+      toast.error(result.reason)
+      return
+    }
+    setImportPreview(await previewImport(getRepository(), result.contents))
+  }
+
+  const confirmImport = async () => {
+    if (!importPreview) return
+    setIsImporting(true)
+    const { imported, skipped, failed } = await applyImport(getRepository(), importPreview)
+    setIsImporting(false)
+    setImportPreview(null)
+    if (failed.length > 0) {
+      toast.warning(`Imported ${imported}, skipped ${skipped} already here. ${failed.length} failed: ${failed.join("; ")}`)
+    } else {
+      toast.success(`Imported ${imported} item${imported === 1 ? "" : "s"}, skipped ${skipped} already here`)
+    }
+    await refresh()
+  }
+
+  const newImportCount = importPreview?.items.filter((item) => !item.duplicate).length ?? 0
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FolderOpen className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">My Draft Applications</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-300">
+            Pick up where you left off on any permit application you haven't submitted yet.
+          </p>
+        </div>
+
+        <Card className="shadow-lg border-0 bg-white dark:bg-gray-800">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-gray-900 dark:text-white">In-Progress Applications</CardTitle>
+              <CardDescription className="text-gray-600 dark:text-gray-300">
+                Drafts are saved in this browser as you type
+              </CardDescription>
+            </div>
+            <Link href="/new-application">
+              <Button className="flex items-center space-x-2">
+                <Plus className="w-4 h-4" />
+                <span>New Draft</span>
+              </Button>
+            </Link>
+          </CardHeader>
+          <CardContent>
+            {drafts === null ? (
+              <p className="text-center py-8 text-gray-600 dark:text-gray-300">Loading drafts...</p>
+            ) : drafts.length === 0 ? (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <FileText className="w-8 h-8 text-gray-400 dark:text-gray-500" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">No drafts yet</h3>
+                <p className="text-gray-600 dark:text-gray-300">
+                  Start a new application and it will appear here until you submit it.
+                </p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {drafts.map((draft) => (
+                  <li key={draft.id} className="py-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-gray-900 dark:text-white truncate">{draftTitle(draft)}</h3>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        Step {stepNumber(draft.step)} of {WIZARD_STEPS.length}: {stepAt(stepNumber(draft.step)).title}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Last edited {formatDate(draft.updatedAt)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Link href={`/new-application?draft=${encodeURIComponent(draft.id)}`}>
+                        <Button size="sm" className="flex items-center space-x-1">
+                          <Play className="w-4 h-4" />
+                          <span>Resume</span>
+                        </Button>
+                      </Link>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDuplicate(draft)}
+                        className="flex items-center space-x-1"
+                      >
+                        <Copy className="w-4 h-4" />
+                        <span>Duplicate</span>
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="outline" className="flex items-center space-x-1 text-red-600">
+                            <Trash2 className="w-4 h-4" />
+                            <span>Delete</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this draft?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{draftTitle(draft)}" will be permanently removed from this browser.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(draft)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-8 shadow-lg border-0 bg-white dark:bg-gray-800">
+          <CardHeader>
+            <CardTitle className="text-gray-900 dark:text-white">Move to Another Device</CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300">
+              Export your drafts, applications and attachments to a file, then import it on another computer
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-3">
+            <Button variant="outline" onClick={handleExport} className="flex items-center space-x-2">
+              <Download className="w-4 h-4" />
+              <span>Export My Applications</span>
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center space-x-2"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import</span>
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                handleImportFile(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        <Dialog open={importPreview !== null} onOpenChange={(open) => !open && setImportPreview(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Import Preview</DialogTitle>
+              <DialogDescription>
+                {newImportCount} new item{newImportCount === 1 ? "" : "s"} will be added. Items already on this device
+                are left unchanged.
+              </DialogDescription>
+            </DialogHeader>
+            <ul className="max-h-72 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              {importPreview?.items.map((item) => (
+                <li key={`${item.kind}:${item.id}`} className="py-2 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="truncate text-gray-900 dark:text-white">{item.label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">{item.kind}</p>
+                  </div>
+                  <Badge variant={item.duplicate ? "secondary" : "default"}>
+                    {item.duplicate ? "Already here" : "New"}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setImportPreview(null)}>
+                Cancel
+              </Button>
+              <Button onClick={confirmImport} disabled={isImporting || newImportCount === 0}>
+                {isImporting ? "Importing..." : `Import ${newImportCount} Item${newImportCount === 1 ? "" : "s"}`}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  )
+}
@@ -1,154 +1,289 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useForm } from "react-hook-form"
+import Link from "next/link"
+import { useState, useEffect, useRef } from "react"
+import { useForm, useWatch } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { z } from "zod"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
-import { Textarea } from "@/components/ui/textarea"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Form } from "@/components/ui/form"
 import { Progress } from "@/components/ui/progress"
-import { CheckCircle, ArrowLeft, ArrowRight, FileText, Home } from "lucide-react"
+import { CheckCircle, ArrowLeft, ArrowRight, FileText, Home, FolderOpen, Copy } from "lucide-react"
 import { toast } from "sonner"
-import { coerceNumberOrFail, isPositiveNumber } from "@/lib/utils"
-
-const buildingPermitSchema = z.object({
-  applicantName: z
-    .string()
-    .min(2, "Applicant name must be at least 2 characters")
-    .max(100, "Applicant name must be less than 100 characters"),
-  propertyAddress: z
-    .string()
-    .min(10, "Property address must be at least 10 characters")
-    .max(200, "Property address must be less than 200 characters")
-    .refine((val) => val.toLowerCase().includes("pa") || val.toLowerCase().includes("pennsylvania"), {
-      message: "Address must be in Pennsylvania (PA)",
-    }),
-  projectType: z.string().min(1, "Please select a project type"),
-  projectDescription: z
-    .string()
-    .min(10, "Project description must be at least 10 characters")
-    .max(1000, "Project description must be less than 1000 characters"),
-  estimatedCost: z.string().refine((val) => {
-    try {
-      const num = coerceNumberOrFail(val)
-      return isPositiveNumber(num)
-    } catch {
-      return false
-    }
-  }, "Estimated cost must be a positive number"),
-  contractorLicense: z
-    .string()
-    .optional()
-    .refine((val) => {
-      if (!val || val.trim() === "") return true
-      return /^[A-Za-z0-9]+$/.test(val.trim())
-    }, "Contractor license must be alphanumeric if provided"),
-})
-
-type BuildingPermitForm = z.infer<typeof buildingPermitSchema>
-
-const PROJECT_TYPES = [
-  "New Construction - Residential",
-  "New Construction - Commercial",
-  "Addition - Residential",
-  "Addition - Commercial",
-  "Renovation - Interior",
-  "Renovation - Exterior",
-  "Deck/Patio Construction",
-  "Garage Construction",
-  "Shed Construction",
-  "Pool Installation",
-  "Electrical Work",
-  "Plumbing Work",
-  "HVAC Installation",
-  "Roofing Work",
-  "Demolition",
-  "Other",
-]
-
-const FORM_STEPS = [
-  { id: 1, title: "Applicant Information", description: "Basic applicant details" },
-  { id: 2, title: "Property & Project", description: "Property and project information" },
-  { id: 3, title: "Cost & Contractor", description: "Financial and contractor details" },
-  { id: 4, title: "Review & Submit", description: "Review your application" },
-]
+import PaymentPanel from "@/components/PaymentPanel"
+import Receipt from "@/components/Receipt"
+import SignatureRecord from "@/components/SignatureRecord"
+import AttachmentsStep from "@/components/wizard/AttachmentsStep"
+import FeeEstimateTable from "@/components/wizard/FeeEstimateTable"
+import ReviewSummary from "@/components/wizard/ReviewSummary"
+import WizardField from "@/components/wizard/WizardField"
+import { useDraftAutosave } from "@/hooks/use-draft-autosave"
+import { useDraftSync } from "@/hooks/use-draft-sync"
+import { lookupPennsylvaniaZip } from "@/lib/address"
+import {
+  APPLICATION_STATUS_LABELS,
+  EMPTY_BUILDING_PERMIT,
+  buildingPermitSchema,
+  type Application,
+  type Attachment,
+  type Draft,
+  type BuildingPermitForm,
+} from "@/lib/application"
+import { PAYMENT_STATUS_LABELS } from "@/lib/application-payment"
+import { DOCUMENT_CATEGORIES, missingDocuments } from "@/lib/attachments"
+import { describePreferredContact } from "@/lib/contact"
+import { createDraft, hasDraftContent, mergeDraftValues, sameDraftContent } from "@/lib/drafts"
+import { calculateFees, feeInputFor } from "@/lib/fees"
+import { getRepository } from "@/lib/storage"
+import {
+  reachableStep,
+  REVIEW_STEP,
+  stepAt,
+  stepNumber,
+  visibleFields,
+  visibleSections,
+  WIZARD_STEPS,
+  wizardUrl,
+  type FieldDefinition,
+} from "@/lib/wizard"
+
+function formatSavedAt(iso: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+}
 
 export default function NewApplication() {
   const [currentStep, setCurrentStep] = useState(1)
+  // Furthest step reached, so the step indicators can jump back to it
+  const [furthestStep, setFurthestStep] = useState(1)
+  // Set when a step was opened from the review's Edit links
+  const [returnToReview, setReturnToReview] = useState(false)
   const [isClient, setIsClient] = useState(false)
-  const [isSubmitted, setIsSubmitted] = useState(false)
-  const [applicationId, setApplicationId] = useState("")
+  const [submitted, setSubmitted] = useState<Application | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [draftId, setDraftId] = useState("")
+  const [draftName, setDraftName] = useState("")
+  // Null until the draft is first written, so opening the wizard doesn't leave empty drafts behind
+  const [draftCreatedAt, setDraftCreatedAt] = useState<string | null>(null)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const isSubmitted = submitted !== null
 
   const form = useForm<BuildingPermitForm>({
     resolver: zodResolver(buildingPermitSchema),
-    defaultValues: {
-      applicantName: "",
-      propertyAddress: "",
-      projectType: "",
-      projectDescription: "",
-      estimatedCost: "",
-      contractorLicense: "",
-    },
+    defaultValues: EMPTY_BUILDING_PERMIT,
     mode: "onChange",
   })
 
   useEffect(() => {
     setIsClient(true)
 
-    if (typeof window !== "undefined") {
-      const savedData = localStorage.getItem("buildingPermitDraft")
-      if (savedData) {
-        try {
-          const parsedData = JSON.parse(savedData)
-          form.reset(parsedData)
+    const restoreDraft = async () => {
+      const params = new URLSearchParams(window.location.search)
+      const requestedId = params.get("draft")
+      const requestedStep = Number(params.get("step"))
+      if (requestedId) {
+        const repository = getRepository()
+        const draft = await repository.drafts.get(requestedId)
+        if (draft.status === "ok") {
+          const saved = await repository.attachments.list(draft.data.id).catch(() => [])
+          form.reset(draft.data.values)
+          baseDraft.current = draft.data
+          setDraftId(draft.data.id)
+          setDraftName(draft.data.title)
+          setDraftCreatedAt(draft.data.createdAt)
+          setCurrentStep(reachableStep(requestedStep || stepNumber(draft.data.step), draft.data.values, saved))
           toast.info("Draft application loaded")
-        } catch (error) {
-          console.error("Error loading draft:", error)
+          return
+        }
+        if (draft.status === "quarantined") {
+          toast.warning("That draft couldn't be read and was set aside. Starting a new application.")
+        } else {
+          toast.error("That draft no longer exists. Starting a new application.")
         }
+        window.history.replaceState(null, "", "/new-application")
       }
+      setDraftId(createDraft().id)
+    }
+
+    if (typeof window !== "undefined") {
+      restoreDraft()
     }
   }, [form])
 
-  const watchedValues = form.watch()
   useEffect(() => {
-    if (isClient && typeof window !== "undefined") {
-      localStorage.setItem("buildingPermitDraft", JSON.stringify(watchedValues))
+    setFurthestStep((prev) => Math.max(prev, currentStep))
+    if (currentStep >= REVIEW_STEP) setReturnToReview(false)
+  }, [currentStep])
+
+  // Keeps ?draft=…&step=… in step with the wizard. Each step change is a
+  // history entry so the browser's back and forward buttons move between steps.
+  useEffect(() => {
+    if (!isClient || !draftId || isSubmitted) return
+    const url = wizardUrl(draftCreatedAt ? draftId : null, currentStep)
+    if (`${window.location.pathname}${window.location.search}` === url) return
+    const urlStep = new URLSearchParams(window.location.search).get("step")
+    if (urlStep !== null && Number(urlStep) !== currentStep) {
+      window.history.pushState(null, "", url)
+    } else {
+      window.history.replaceState(null, "", url)
+    }
+  }, [isClient, draftId, draftCreatedAt, currentStep, isSubmitted])
+
+  useEffect(() => {
+    const onPopState = () => {
+      const params = new URLSearchParams(window.location.search)
+      const requested = Number(params.get("step"))
+      const step = reachableStep(requested, form.getValues(), attachments)
+      if (step !== requested) {
+        params.set("step", String(step))
+        window.history.replaceState(null, "", `${window.location.pathname}?${params}`)
+      }
+      setCurrentStep(step)
     }
-  }, [watchedValues, isClient])
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [form, attachments])
 
-  const nextStep = async () => {
-    const fieldsToValidate = getFieldsForStep(currentStep)
-    const isValid = await form.trigger(fieldsToValidate)
+  useEffect(() => {
+    if (!draftId) return
+    getRepository()
+      .attachments.list(draftId)
+      .then(setAttachments)
+      .catch((error) => console.error("[v0] Error loading attachments:", error))
+  }, [draftId])
+
+  // Another tab may have the same draft open. `baseDraft` is the version this
+  // tab last loaded or saved: unchanged answers aren't saved again, and a merge
+  // compares both tabs' edits against it.
+  const baseDraft = useRef<Pick<Draft, "title" | "step" | "values">>({
+    title: "",
+    step: stepAt(1).id,
+    values: EMPTY_BUILDING_PERMIT,
+  })
+  const sync = useDraftSync(draftCreatedAt ? draftId : "", (draft) => sameDraftContent(draft, baseDraft.current))
+
+  const autosave = useDraftAutosave(
+    form,
+    (values) => {
+      if (!isClient || !draftId || isSubmitted || sync.state !== "editing") return null
+      if (!draftCreatedAt && !draftName.trim() && !hasDraftContent(values)) return null
+      const step = stepAt(currentStep).id
+      const unchanged = step === baseDraft.current.step && sameDraftContent({ title: draftName, values }, baseDraft.current)
+      if (draftCreatedAt && unchanged) return null
+      return {
+        id: draftId,
+        title: draftName,
+        step,
+        createdAt: draftCreatedAt ?? new Date().toISOString(),
+        values,
+      }
+    },
+    (saved) => {
+      setDraftCreatedAt((prev) => prev ?? saved.createdAt)
+      baseDraft.current = saved
+      sync.announceSave(saved)
+    },
+  )
 
-    if (isValid) {
-      setCurrentStep((prev) => Math.min(prev + 1, FORM_STEPS.length))
-    } else {
-      toast.error("Please fix the errors before continuing")
+  const { requestSave } = autosave
+  useEffect(() => {
+    if (isClient) requestSave()
+  }, [isClient, draftName, currentStep, requestSave])
+
+  // While read-only, keep showing whatever the editing tab last saved
+  const { state: syncState, remoteDraft, closure, takeOver, followOtherTab } = sync
+  useEffect(() => {
+    if (syncState !== "read-only" || !remoteDraft) return
+    form.reset(remoteDraft.values)
+    baseDraft.current = remoteDraft
+    setDraftName(remoteDraft.title)
+  }, [form, syncState, remoteDraft])
+
+  // Both resolutions save over the other tab's version, so that becomes the base
+  const keepThisTab = () => {
+    if (remoteDraft) baseDraft.current = remoteDraft
+    takeOver()
+    requestSave()
+    toast.success("This tab's version of the draft will be kept")
+  }
+
+  const mergeOtherTab = () => {
+    if (!remoteDraft) return
+    form.reset(mergeDraftValues(baseDraft.current.values, form.getValues(), remoteDraft.values))
+    if (!draftName.trim()) setDraftName(remoteDraft.title)
+    baseDraft.current = remoteDraft
+    takeOver()
+    requestSave()
+    toast.success("Changes from the other tab were merged in")
+  }
+
+  // Only these two parts of the form change what the page itself shows, so
+  // it follows them rather than re-rendering on every keystroke
+  const projectType = useWatch({ control: form.control, name: "projectType" })
+  const [visibleSectionIds, setVisibleSectionIds] = useState<string[]>([])
+  useEffect(() => {
+    const update = (values: BuildingPermitForm) => {
+      const ids = visibleSections(stepAt(currentStep), values).map((section) => section.id)
+      setVisibleSectionIds((prev) => (prev.join() === ids.join() ? prev : ids))
     }
+    update(form.getValues())
+    return form.subscribe({ formState: { values: true }, callback: ({ values }) => update(values) })
+  }, [form, currentStep])
+
+  // Step fields whose values must also pass the Pennsylvania ZIP lookup
+  const checkZipFields = async (fields: FieldDefinition[]) => {
+    let allValid = true
+    for (const field of fields.filter((f) => f.widget === "pa-zip")) {
+      const result = await lookupPennsylvaniaZip(String(form.getValues(field.name) ?? ""))
+      if (!result.ok) {
+        form.setError(field.name, { type: "zip", message: result.message })
+        allValid = false
+      }
+    }
+    return allValid
+  }
+
+  const checkDocuments = () => {
+    const missing = missingDocuments(form.getValues("projectType"), attachments)
+    if (missing.length > 0) {
+      toast.error(`Please attach: ${missing.map((category) => DOCUMENT_CATEGORIES[category].label).join(", ")}`)
+      return false
+    }
+    return true
   }
 
-  const prevStep = () => {
-    setCurrentStep((prev) => Math.max(prev - 1, 1))
+  const validateCurrentStep = async () => {
+    if (stepAt(currentStep).isAttachments) return checkDocuments()
+    const fields = visibleFields(stepAt(currentStep), form.getValues())
+    const isValid =
+      (await form.trigger(fields.map((field) => field.name))) && (await checkZipFields(fields))
+    if (!isValid) toast.error("Please fix the errors before continuing")
+    return isValid
   }
 
-  const getFieldsForStep = (step: number): (keyof BuildingPermitForm)[] => {
-    switch (step) {
-      case 1:
-        return ["applicantName"]
-      case 2:
-        return ["propertyAddress", "projectType", "projectDescription"]
-      case 3:
-        return ["estimatedCost", "contractorLicense"]
-      default:
-        return []
+  // Moving forward checks the current step first, and can't pass a step
+  // that doesn't validate; going back never checks
+  const goToStep = async (target: number) => {
+    if (target <= currentStep) {
+      setCurrentStep(Math.max(target, 1))
+      return
     }
+    if (!(await validateCurrentStep())) return
+    const reachable = reachableStep(target, form.getValues(), attachments)
+    if (reachable < target) toast.error(`Please complete ${stepAt(reachable).title} first`)
+    setCurrentStep(reachable)
   }
 
-  const onSubmit = (data: BuildingPermitForm) => {
+  const nextStep = () => goToStep(returnToReview ? REVIEW_STEP : currentStep + 1)
+
+  const prevStep = () => goToStep(currentStep - 1)
+
+  const editStep = (stepId: string) => {
+    setReturnToReview(true)
+    goToStep(stepNumber(stepId))
+  }
+
+  const onSubmit = async (data: BuildingPermitForm) => {
     console.log("[v0] Form submission started", data)
 
     if (!isClient) {
@@ -163,38 +298,43 @@ export default function NewApplication() {
       toast.error("Please fix all validation errors before submitting")
       return
     }
+    if (!checkDocuments()) return
 
-    const generatedId = `PA-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`
-    console.log("[v0] Generated application ID:", generatedId)
-
-    const applicationData = {
-      ...data,
-      applicationId: generatedId,
-      submittedAt: new Date().toISOString(),
-      status: "Submitted",
-    }
-
-    if (typeof window !== "undefined") {
-      localStorage.setItem(`application_${generatedId}`, JSON.stringify(applicationData))
-      localStorage.removeItem("buildingPermitDraft")
-      console.log("[v0] Application saved to localStorage")
+    setIsSubmitting(true)
+    try {
+      const repository = getRepository()
+      const saved = await repository.applications.submit(data, draftId)
+      console.log("[v0] Application saved with ID:", saved.applicationId)
+
+      autosave.cancel()
+      await repository.drafts.delete(draftId)
+      sync.announceSubmitted(saved.applicationId)
+      setSubmitted(saved)
+      toast.success("Application submitted successfully!")
+    } catch (error) {
+      console.error("[v0] Error submitting application:", error)
+      toast.error("We couldn't submit your application. Please try again.")
+    } finally {
+      setIsSubmitting(false)
     }
-
-    setApplicationId(generatedId)
-    setIsSubmitted(true)
-    toast.success("Application submitted successfully!")
-
-    console.log("[v0] Application submitted successfully")
   }
 
   const startNewApplication = () => {
-    setIsSubmitted(false)
-    setApplicationId("")
-    form.reset()
+    setSubmitted(null)
+    form.reset(EMPTY_BUILDING_PERMIT)
+    baseDraft.current = { title: "", step: stepAt(1).id, values: EMPTY_BUILDING_PERMIT }
     setCurrentStep(1)
+    setFurthestStep(1)
+    setReturnToReview(false)
+    setDraftId(createDraft().id)
+    setDraftName("")
+    setDraftCreatedAt(null)
+    setAttachments([])
+    window.history.replaceState(null, "", "/new-application")
   }
 
-  const progress = (currentStep / FORM_STEPS.length) * 100
+  const step = stepAt(currentStep)
+  const progress = (currentStep / WIZARD_STEPS.length) * 100
 
   if (!isClient) {
     return (
@@ -209,7 +349,7 @@ export default function NewApplication() {
     )
   }
 
-  if (isSubmitted && applicationId) {
+  if (submitted) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -236,7 +376,7 @@ export default function NewApplication() {
               <div className="bg-blue-50 dark:bg-blue-900/20 p-6 rounded-lg text-center">
                 <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-100 mb-2">Your Application Number</h3>
                 <div className="text-3xl font-bold text-blue-600 dark:text-blue-400 mb-2 font-mono">
-                  {applicationId}
+                  {submitted.applicationId}
                 </div>
                 <p className="text-sm text-blue-800 dark:text-blue-200">
                   Use this number to track your application status
@@ -258,10 +398,35 @@ export default function NewApplication() {
                 </div>
                 <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
                   <span className="font-medium text-gray-700 dark:text-gray-300">Status:</span>
-                  <p className="text-green-600 dark:text-green-400 font-semibold">Submitted</p>
+                  <p className="text-green-600 dark:text-green-400 font-semibold">
+                    {APPLICATION_STATUS_LABELS.submitted} &middot; Fees {PAYMENT_STATUS_LABELS[submitted.paymentStatus]}
+                  </p>
                 </div>
               </div>
 
+              {submitted.fees && (
+                <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+                  <h4 className="font-medium text-gray-900 dark:text-white mb-1">Permit Fees</h4>
+                  {submitted.receipt ? (
+                    <Receipt applicationId={submitted.applicationId} receipt={submitted.receipt} refunds={submitted.refunds} />
+                  ) : (
+                    <>
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                        Pay now, or later from the tracking page. Review begins once fees are paid.
+                      </p>
+                      <PaymentPanel application={submitted} onUpdated={setSubmitted} />
+                    </>
+                  )}
+                </div>
+              )}
+
+              {submitted.signature && (
+                <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+                  <h4 className="font-medium text-gray-900 dark:text-white mb-3">Your Signature</h4>
+                  <SignatureRecord signature={submitted.signature} />
+                </div>
+              )}
+
               <div className="bg-yellow-50 dark:bg-yellow-900/20 p-4 rounded-lg">
                 <div className="flex items-start space-x-3">
                   <FileText className="w-5 h-5 text-yellow-600 dark:text-yellow-400 mt-0.5" />
@@ -269,7 +434,7 @@ export default function NewApplication() {
                     <h4 className="font-medium text-yellow-900 dark:text-yellow-100 mb-2">What Happens Next?</h4>
                     <ul className="text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
                       <li>• Your application will be reviewed by the Pennsylvania building department</li>
-                      <li>• You will receive updates via the contact information provided</li>
+                      <li>• You will receive updates {describePreferredContact(form.getValues("contact"), form.getValues("parties.applicant"))}</li>
                       <li>• Review process typically takes 5-10 business days</li>
                       <li>• You can track your application status using the application number above</li>
                     </ul>
@@ -309,10 +474,33 @@ export default function NewApplication() {
             Submit your building permit application for review and approval
           </p>
 
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 mb-8 max-w-xl mx-auto">
+            <Input
+              aria-label="Draft name"
+              placeholder="Name this draft (optional), e.g. Smith deck"
+              value={draftName}
+              maxLength={100}
+              onChange={(e) => setDraftName(e.target.value)}
+              disabled={syncState !== "editing"}
+              className="bg-white dark:bg-gray-800"
+            />
+            <Link href="/drafts">
+              <Button type="button" variant="outline" className="w-full sm:w-auto flex items-center space-x-2">
+                <FolderOpen className="w-4 h-4" />
+                <span>My Drafts</span>
+              </Button>
+            </Link>
+          </div>
+          <p aria-live="polite" className="-mt-6 mb-8 h-5 text-xs text-gray-500 dark:text-gray-400">
+            {syncState === "editing" &&
+              draftCreatedAt &&
+              (autosave.isPending ? "Saving…" : autosave.savedAt ? `Saved at ${formatSavedAt(autosave.savedAt)}` : "")}
+          </p>
+
           <div className="mb-8">
             <div className="flex justify-between items-center mb-2">
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                Step {currentStep} of {FORM_STEPS.length}
+                Step {currentStep} of {WIZARD_STEPS.length}
               </span>
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
                 {Math.round(progress)}% Complete
@@ -322,220 +510,148 @@ export default function NewApplication() {
           </div>
 
           <div className="flex justify-center space-x-4 mb-8">
-            {FORM_STEPS.map((step) => (
-              <div
-                key={step.id}
-                className={`flex items-center space-x-2 px-3 py-2 rounded-lg ${
-                  step.id === currentStep
-                    ? "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200"
-                    : step.id < currentStep
-                      ? "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200"
-                      : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
-                }`}
-              >
-                {step.id < currentStep ? (
-                  <CheckCircle className="w-4 h-4" />
-                ) : (
-                  <span className="w-4 h-4 rounded-full bg-current opacity-20" />
-                )}
-                <span className="text-sm font-medium hidden sm:inline">{step.title}</span>
-              </div>
-            ))}
+            {WIZARD_STEPS.map((indicator, index) => {
+              const number = index + 1
+              const isCompleted = number < furthestStep && number !== currentStep
+              return (
+                <button
+                  key={indicator.id}
+                  type="button"
+                  onClick={() => goToStep(number)}
+                  disabled={number === currentStep || number > furthestStep}
+                  aria-current={number === currentStep ? "step" : undefined}
+                  aria-label={`Step ${number}: ${indicator.title}`}
+                  className={`flex items-center space-x-2 px-3 py-2 rounded-lg enabled:hover:opacity-80 disabled:cursor-default ${
+                    number === currentStep
+                      ? "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200"
+                      : isCompleted
+                        ? "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200"
+                        : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
+                  }`}
+                >
+                  {isCompleted ? (
+                    <CheckCircle className="w-4 h-4" />
+                  ) : (
+                    <span className="w-4 h-4 rounded-full bg-current opacity-20" />
+                  )}
+                  <span className="text-sm font-medium hidden sm:inline">{indicator.title}</span>
+                </button>
+              )
+            })}
           </div>
         </div>
 
+        {syncState !== "editing" && (
+          <div
+            role="status"
+            className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4 rounded-lg border border-yellow-200 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 p-4 text-sm text-yellow-900 dark:text-yellow-100"
+          >
+            <div className="flex items-start gap-3">
+              <Copy className="w-5 h-5 mt-0.5 shrink-0" />
+              {syncState === "closed" ? (
+                <p>
+                  {closure?.type === "submitted" ? (
+                    <>
+                      <strong>This draft was submitted in another tab</strong> as application {closure.applicationId}.
+                      It can no longer be changed or submitted again.
+                    </>
+                  ) : (
+                    <>
+                      <strong>This draft was deleted in another tab.</strong> Nothing here will be saved.
+                    </>
+                  )}
+                </p>
+              ) : syncState === "conflict" ? (
+                <p>
+                  <strong>This draft was changed in another tab.</strong> Saving here is paused so neither tab's work is
+                  lost. Choose which changes to keep.
+                </p>
+              ) : (
+                <p>
+                  <strong>This draft is open read-only.</strong> It's being edited in another tab; changes made there
+                  appear here.
+                </p>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2 shrink-0">
+              {syncState === "conflict" && (
+                <>
+                  <Button type="button" size="sm" variant="outline" onClick={mergeOtherTab}>
+                    Merge
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={followOtherTab}>
+                    Open Read-Only
+                  </Button>
+                </>
+              )}
+              {syncState === "closed" ? (
+                <Button type="button" size="sm" onClick={startNewApplication}>
+                  Start a New Application
+                </Button>
+              ) : (
+                <Button type="button" size="sm" onClick={keepThisTab}>
+                  {syncState === "conflict" ? "Keep This Tab's Version" : "Take Over Editing"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         <Card className="bg-white dark:bg-gray-800 shadow-lg">
           <CardHeader>
-            <CardTitle className="text-xl text-gray-900 dark:text-white">{FORM_STEPS[currentStep - 1].title}</CardTitle>
+            <CardTitle className="text-xl text-gray-900 dark:text-white">{step.title}</CardTitle>
             <CardDescription className="text-gray-600 dark:text-gray-300">
-              {FORM_STEPS[currentStep - 1].description}
+              {step.description}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                {currentStep === 1 && (
-                  <div className="space-y-6">
-                    <FormField
-                      control={form.control}
-                      name="applicantName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Full Name of Applicant *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter your full legal name" {...field} />
-                          </FormControl>
-                          <FormDescription>
-                            Enter the full legal name of the person applying for the permit
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                )}
-
-                {currentStep === 2 && (
-                  <div className="space-y-6">
-                    <FormField
-                      control={form.control}
-                      name="propertyAddress"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Property Address *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="123 Main Street, City, PA 12345" {...field} />
-                          </FormControl>
-                          <FormDescription>
-                            Complete address where the construction work will be performed (must be in PA)
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="projectType"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Project Type *</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select the type of construction project" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {PROJECT_TYPES.map((type) => (
-                                <SelectItem key={type} value={type}>
-                                  {type}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormDescription>
-                            Choose the category that best describes your construction project
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="projectDescription"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Project Description *</FormLabel>
-                          <FormControl>
-                            <Textarea
-                              placeholder="Provide a detailed description of the proposed construction work, including materials, dimensions, and scope..."
-                              className="min-h-[120px]"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Detailed description of the proposed work (minimum 10 characters)
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                )}
-
-                {currentStep === 3 && (
-                  <div className="space-y-6">
-                    <FormField
-                      control={form.control}
-                      name="estimatedCost"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Estimated Project Cost *</FormLabel>
-                          <FormControl>
-                            <Input type="number" placeholder="25000" min="0" step="0.01" {...field} />
-                          </FormControl>
-                          <FormDescription>
-                            Total estimated cost of the project in USD (numbers only, no commas or dollar signs)
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="contractorLicense"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Contractor License Number</FormLabel>
-                          <FormControl>
-                            <Input placeholder="ABC123456 (optional)" {...field} />
-                          </FormControl>
-                          <FormDescription>
-                            If using a licensed contractor, enter their license number (alphanumeric format)
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
+                <fieldset disabled={syncState !== "editing"} className="min-w-0">
+                  {step.isReview ? (
+                    <div className="space-y-6">
+                      <ReviewSummary
+                        steps={WIZARD_STEPS.slice(0, currentStep - 1)}
+                        values={form.getValues()}
+                        attachments={attachments}
+                        onEdit={editStep}
+                      />
+                      <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg">
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Estimated Permit Fees</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                          Based on the current fee schedule; the building department confirms the final amount.
+                        </p>
+                        <FeeEstimateTable estimate={calculateFees(feeInputFor(form.getValues()))} />
+                      </div>
+                    </div>
+                  ) : step.isAttachments ? (
+                    <AttachmentsStep
+                      ownerId={draftId}
+                      projectType={projectType}
+                      attachments={attachments}
+                      onChange={setAttachments}
                     />
-                  </div>
-                )}
-
-                {currentStep === 4 && (
-                  <div className="space-y-6">
-                    <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg">
-                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Application Review</h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                        <div>
-                          <span className="font-medium text-gray-700 dark:text-gray-300">Applicant Name:</span>
-                          <p className="text-gray-900 dark:text-white">{form.getValues("applicantName")}</p>
-                        </div>
-                        <div>
-                          <span className="font-medium text-gray-700 dark:text-gray-300">Property Address:</span>
-                          <p className="text-gray-900 dark:text-white">{form.getValues("propertyAddress")}</p>
-                        </div>
-                        <div>
-                          <span className="font-medium text-gray-700 dark:text-gray-300">Project Type:</span>
-                          <p className="text-gray-900 dark:text-white">{form.getValues("projectType")}</p>
-                        </div>
-                        <div>
-                          <span className="font-medium text-gray-700 dark:text-gray-300">Estimated Cost:</span>
-                          <p className="text-gray-900 dark:text-white">
-                            ${Number.parseFloat(form.getValues("estimatedCost") || "0").toLocaleString()}
-                          </p>
-                        </div>
-                        <div className="md:col-span-2">
-                          <span className="font-medium text-gray-700 dark:text-gray-300">Project Description:</span>
-                          <p className="text-gray-900 dark:text-white mt-1">{form.getValues("projectDescription")}</p>
-                        </div>
-                        {form.getValues("contractorLicense") && (
+                  ) : (
+                    <div className="space-y-6">
+                      {step.fields.map((field) => (
+                        <WizardField key={field.name} field={field} />
+                      ))}
+                      {(step.sections ?? []).filter((section) => visibleSectionIds.includes(section.id)).map((section) => (
+                        <div key={section.id} className="space-y-6 pt-6 border-t border-gray-200 dark:border-gray-700">
                           <div>
-                            <span className="font-medium text-gray-700 dark:text-gray-300">Contractor License:</span>
-                            <p className="text-gray-900 dark:text-white">{form.getValues("contractorLicense")}</p>
+                            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{section.title}</h3>
+                            {section.description && (
+                              <p className="text-sm text-gray-600 dark:text-gray-300">{section.description}</p>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    </div>
-
-                    <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
-                      <div className="flex items-start space-x-3">
-                        <CheckCircle className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
-                        <div>
-                          <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
-                            PA Building Code Compliance
-                          </h4>
-                          <p className="text-sm text-blue-800 dark:text-blue-200">
-                            By submitting this application, you acknowledge that all work must comply with Pennsylvania
-                            building codes and regulations. Your application will be reviewed by the appropriate
-                            authorities.
-                          </p>
+                          {section.fields.map((field) => (
+                            <WizardField key={field.name} field={field} />
+                          ))}
                         </div>
-                      </div>
+                      ))}
                     </div>
-                  </div>
-                )}
+                  )}
+                </fieldset>
 
                 <div className="flex justify-between pt-6 border-t border-gray-200 dark:border-gray-700">
                   <Button
@@ -549,15 +665,16 @@ export default function NewApplication() {
                     <span>Previous</span>
                   </Button>
 
-                  {currentStep < FORM_STEPS.length ? (
+                  {currentStep < WIZARD_STEPS.length ? (
                     <Button type="button" onClick={nextStep} className="flex items-center space-x-2">
-                      <span>Next</span>
+                      <span>{returnToReview ? "Back to Review" : "Next"}</span>
                       <ArrowRight className="w-4 h-4" />
                     </Button>
                   ) : (
                     <Button
                       type="button"
                       className="flex items-center space-x-2 bg-green-600 hover:bg-green-700"
+                      disabled={isSubmitting || syncState !== "editing"}
                       onClick={async () => {
                         console.log("[v0] Submit button clicked")
                         const isValid = await form.trigger()
@@ -572,7 +689,7 @@ export default function NewApplication() {
                       }}
                     >
                       <CheckCircle className="w-4 h-4" />
-                      <span>Submit Application</span>
+                      <span>{isSubmitting ? "Submitting..." : "Submit Application"}</span>
                     </Button>
                   )}
                 </div>
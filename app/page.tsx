@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
-import { Plus, Search } from "lucide-react";
+import { FolderOpen, Plus, Search } from "lucide-react";
 
 export default function Home() {
   return (
@@ -20,7 +20,7 @@ export default function Home() {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-12">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
           <Card className="hover:shadow-lg transition-shadow bg-white dark:bg-gray-800 border-0 shadow-lg">
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
@@ -41,6 +41,26 @@ export default function Home() {
             </CardContent>
           </Card>
 
+          <Card className="hover:shadow-lg transition-shadow bg-white dark:bg-gray-800 border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
+                <FolderOpen className="w-5 h-5 text-amber-600" />
+                My Drafts
+              </CardTitle>
+              <CardDescription className="text-gray-600 dark:text-gray-300">
+                Resume, copy or delete applications you haven't submitted yet
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/drafts">
+                <Button variant="outline" className="w-full" size="lg">
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  My Drafts
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
           <Card className="hover:shadow-lg transition-shadow bg-white dark:bg-gray-800 border-0 shadow-lg">
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
@@ -2,34 +2,68 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "../../components/ui/button"
 import { Input } from "../../components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card"
 import { Badge } from "../../components/ui/badge"
+import PaymentPanel from "../../components/PaymentPanel"
+import Receipt from "../../components/Receipt"
+import SignatureRecord from "../../components/SignatureRecord"
 import { Search, Calendar, CheckCircle, Clock, XCircle } from "lucide-react"
-
-interface Application {
-  id: string
-  status: "pending" | "in_progress" | "completed" | "rejected"
-  createdTime: string
-  title: string
-  description?: string
-}
+import {
+  APPLICATION_STATUS_LABELS,
+  applicationTitle,
+  type Application,
+  type ApplicationStatus,
+} from "../../lib/application"
+import { exampleApplicationNumber, validateApplicationNumber } from "../../lib/application-number"
+import { verifyApplicationSignature } from "../../lib/application-status"
+import { PAYMENT_STATUS_LABELS, type PaymentStatus } from "../../lib/application-payment"
+import { PARTY_ROLE_LABELS, PARTY_ROLES } from "../../lib/parties"
+import { formatScheduleDate, workAlreadyBegun } from "../../lib/schedule"
+import type { SignatureCheck } from "../../lib/signature"
+import { getRepository } from "../../lib/storage"
 
 export default function TrackApplication() {
   const [applicationId, setApplicationId] = useState("")
+  const [searchedId, setSearchedId] = useState("")
+  const [inputError, setInputError] = useState("")
   const [application, setApplication] = useState<Application | null>(null)
   const [isSearched, setIsSearched] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [signatureCheck, setSignatureCheck] = useState<SignatureCheck | undefined>(undefined)
+
+  // Checks the stored record and its documents against the applicant's signature
+  useEffect(() => {
+    setSignatureCheck(undefined)
+    if (!application?.signature) return
+    let isCurrent = true
+    getRepository()
+      .attachments.list(application.applicationId)
+      .then((documents) => verifyApplicationSignature(application, documents))
+      .then((check) => {
+        if (isCurrent && check !== "unsigned") setSignatureCheck(check)
+      })
+      .catch((error) => console.error("[v0] Error verifying signature:", error))
+    return () => {
+      isCurrent = false
+    }
+  }, [application])
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: ApplicationStatus) => {
     switch (status) {
-      case "pending":
+      case "submitted":
+      case "completeness_check":
         return "bg-yellow-100 text-yellow-800 border-yellow-200"
-      case "in_progress":
+      case "under_review":
+      case "inspections":
         return "bg-blue-100 text-blue-800 border-blue-200"
-      case "completed":
+      case "corrections_requested":
+        return "bg-orange-100 text-orange-800 border-orange-200"
+      case "approved":
+      case "issued":
+      case "finaled":
         return "bg-green-100 text-green-800 border-green-200"
       case "rejected":
         return "bg-red-100 text-red-800 border-red-200"
@@ -38,21 +72,49 @@ export default function TrackApplication() {
     }
   }
 
-  const getStatusIcon = (status: string) => {
+  const getPaymentStatusColor = (status: PaymentStatus) => {
     switch (status) {
+      case "paid":
+        return "bg-green-100 text-green-800 border-green-200"
       case "pending":
-        return <Clock className="w-4 h-4" />
-      case "in_progress":
-        return <Clock className="w-4 h-4" />
-      case "completed":
+        return "bg-blue-100 text-blue-800 border-blue-200"
+      case "unpaid":
+        return "bg-orange-100 text-orange-800 border-orange-200"
+      default:
+        return "bg-gray-100 text-gray-800 border-gray-200"
+    }
+  }
+
+  const getStatusIcon = (status: ApplicationStatus) => {
+    switch (status) {
+      case "approved":
+      case "issued":
+      case "finaled":
         return <CheckCircle className="w-4 h-4" />
       case "rejected":
+      case "withdrawn":
         return <XCircle className="w-4 h-4" />
       default:
         return <Clock className="w-4 h-4" />
     }
   }
 
+  const getTimelineDotColor = (status: ApplicationStatus) => {
+    switch (status) {
+      case "rejected":
+      case "withdrawn":
+        return "bg-red-500"
+      case "corrections_requested":
+        return "bg-orange-500"
+      case "approved":
+      case "issued":
+      case "finaled":
+        return "bg-green-500"
+      default:
+        return "bg-blue-500"
+    }
+  }
+
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString)
@@ -68,38 +130,35 @@ export default function TrackApplication() {
     }
   }
 
-  const searchApplication = () => {
+  const searchApplication = async () => {
     if (!applicationId.trim()) return
 
+    const check = validateApplicationNumber(applicationId)
+    if (!check.ok) {
+      setInputError(check.message)
+      return
+    }
+    setInputError("")
+    setApplicationId(check.value)
+    setSearchedId(check.value)
+
     setIsLoading(true)
     setIsSearched(true)
 
-    // Simulate API call delay
-    setTimeout(() => {
-      try {
-        const storedApplication = localStorage.getItem(`application_${applicationId.trim()}`)
-        if (storedApplication) {
-          const applicationData = JSON.parse(storedApplication)
-          // Convert the stored format to the expected Application interface
-          const foundApplication: Application = {
-            id: applicationData.applicationId,
-            status: "pending", // Default status since we don't track status changes yet
-            createdTime: applicationData.submittedAt,
-            title: `${applicationData.projectType} - ${applicationData.propertyAddress}`,
-            description: applicationData.projectDescription,
-          }
-          setApplication(foundApplication)
-          console.log("[v0] Application found:", foundApplication)
-        } else {
-          console.log("[v0] No application found with ID:", applicationId.trim())
-          setApplication(null)
-        }
-      } catch (error) {
-        console.error("[v0] Error reading from localStorage:", error)
+    try {
+      const foundApplication = await getRepository().applications.get(check.value)
+      if (foundApplication) {
+        setApplication(foundApplication)
+        console.log("[v0] Application found:", foundApplication)
+      } else {
+        console.log("[v0] No application found with ID:", check.value)
         setApplication(null)
       }
-      setIsLoading(false)
-    }, 500)
+    } catch (error) {
+      console.error("[v0] Error looking up application:", error)
+      setApplication(null)
+    }
+    setIsLoading(false)
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -134,13 +193,23 @@ export default function TrackApplication() {
             <div className="space-y-2">
               <Input
                 type="text"
-                placeholder="e.g., APP-2024-001"
+                placeholder={`e.g., ${exampleApplicationNumber()}`}
                 value={applicationId}
-                onChange={(e) => setApplicationId(e.target.value)}
+                onChange={(e) => {
+                  setApplicationId(e.target.value)
+                  setInputError("")
+                }}
                 onKeyPress={handleKeyPress}
-                className="text-center text-lg py-3 border-2 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                aria-invalid={inputError !== ""}
+                aria-describedby={inputError ? "application-id-error" : undefined}
+                className="text-center text-lg py-3 border-2 font-mono uppercase focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 disabled={isLoading}
               />
+              {inputError && (
+                <p id="application-id-error" className="text-sm text-red-600 dark:text-red-400 text-center">
+                  {inputError}
+                </p>
+              )}
             </div>
             <Button
               onClick={searchApplication}
@@ -182,63 +251,104 @@ export default function TrackApplication() {
                     <div className="flex items-start justify-between mb-4">
                       <div>
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                          {application.title}
+                          {applicationTitle(application)}
                         </h3>
                         <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
-                          Application ID: <span className="font-mono font-medium">{application.id}</span>
+                          Application ID: <span className="font-mono font-medium">{application.applicationId}</span>
                         </p>
                       </div>
-                      <Badge className={`${getStatusColor(application.status)} flex items-center gap-1`}>
-                        {getStatusIcon(application.status)}
-                        {application.status.replace("_", " ").toUpperCase()}
-                      </Badge>
+                      <div className="flex flex-col items-end gap-2">
+                        <Badge className={`${getStatusColor(application.status)} flex items-center gap-1`}>
+                          {getStatusIcon(application.status)}
+                          {APPLICATION_STATUS_LABELS[application.status].toUpperCase()}
+                        </Badge>
+                        {application.fees && (
+                          <Badge variant="outline" className={getPaymentStatusColor(application.paymentStatus)}>
+                            Fees {PAYMENT_STATUS_LABELS[application.paymentStatus]}
+                          </Badge>
+                        )}
+                      </div>
                     </div>
 
                     <div className="grid grid-cols-1 gap-4">
                       <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
                         <Calendar className="w-4 h-4" />
-                        <span>Created: {formatDate(application.createdTime)}</span>
+                        <span>Created: {formatDate(application.submittedAt)}</span>
                       </div>
+                      {application.schedule.proposedStart && (
+                        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                          <Calendar className="w-4 h-4" />
+                          <span>
+                            Proposed work: {formatScheduleDate(application.schedule.proposedStart)} to{" "}
+                            {formatScheduleDate(application.schedule.proposedCompletion)}
+                          </span>
+                          {workAlreadyBegun(application.schedule, new Date(application.submittedAt)) && (
+                            <Badge variant="outline">Work already begun</Badge>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-700">
+                      <p className="text-sm text-gray-700 dark:text-gray-300">
+                        <strong>Description:</strong> {application.projectDescription}
+                      </p>
+                    </div>
+
+                    <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-700 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                      {PARTY_ROLES.filter((role) => application.parties[role].name).map((role) => (
+                        <div key={role}>
+                          <p className="font-medium text-gray-900 dark:text-white">{PARTY_ROLE_LABELS[role]}</p>
+                          <p className="text-gray-700 dark:text-gray-300">{application.parties[role].name}</p>
+                          {application.parties[role].company && (
+                            <p className="text-gray-500 dark:text-gray-400">{application.parties[role].company}</p>
+                          )}
+                        </div>
+                      ))}
                     </div>
 
-                    {application.description && (
+                    {application.fees && (
                       <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-700">
-                        <p className="text-sm text-gray-700 dark:text-gray-300">
-                          <strong>Description:</strong> {application.description}
-                        </p>
+                        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Permit Fees</h4>
+                        {application.receipt ? (
+                          <Receipt
+                            applicationId={application.applicationId}
+                            receipt={application.receipt}
+                            refunds={application.refunds}
+                          />
+                        ) : (
+                          <PaymentPanel application={application} onUpdated={setApplication} />
+                        )}
+                      </div>
+                    )}
+
+                    {application.signature && (
+                      <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-700">
+                        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Signature</h4>
+                        <SignatureRecord signature={application.signature} check={signatureCheck} />
                       </div>
                     )}
 
                     {/* Status Timeline */}
                     <div className="mt-6 pt-6 border-t border-green-200 dark:border-green-700">
                       <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Application Timeline</h4>
-                      <div className="space-y-2">
-                        <div className="flex items-center gap-3 text-sm">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-gray-600 dark:text-gray-300">Application submitted</span>
-                          <span className="text-gray-400 dark:text-gray-500">
-                            ({formatDate(application.createdTime)})
-                          </span>
-                        </div>
-                        {application.status !== "pending" && (
-                          <div className="flex items-center gap-3 text-sm">
-                            <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                            <span className="text-gray-600 dark:text-gray-300">Application under review</span>
-                          </div>
-                        )}
-                        {application.status === "completed" && (
-                          <div className="flex items-center gap-3 text-sm">
-                            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                            <span className="text-gray-600 dark:text-gray-300">Application completed</span>
-                          </div>
-                        )}
-                        {application.status === "rejected" && (
-                          <div className="flex items-center gap-3 text-sm">
-                            <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                            <span className="text-gray-600 dark:text-gray-300">Application rejected</span>
-                          </div>
-                        )}
-                      </div>
+                      <ol className="space-y-3">
+                        {application.statusHistory.map((transition, index) => (
+                          <li key={`${transition.to}-${transition.at}-${index}`} className="flex items-start gap-3 text-sm">
+                            <div className={`w-2 h-2 mt-1.5 rounded-full ${getTimelineDotColor(transition.to)}`}></div>
+                            <div>
+                              <span className="text-gray-900 dark:text-white font-medium">
+                                {APPLICATION_STATUS_LABELS[transition.to]}
+                              </span>
+                              <span className="text-gray-400 dark:text-gray-500"> ({formatDate(transition.at)})</span>
+                              <p className="text-gray-600 dark:text-gray-300">
+                                by {transition.actor}
+                                {transition.note && <> &mdash; {transition.note}</>}
+                              </p>
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
                     </div>
                   </div>
                 </div>
@@ -249,14 +359,13 @@ export default function TrackApplication() {
                   </div>
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Application Not Found</h3>
                   <p className="text-gray-600 dark:text-gray-300 mb-4">
-                    We couldn't find an application with the ID "{applicationId}".
+                    We couldn't find an application with the ID "{searchedId}".
                   </p>
                   <div className="text-sm text-gray-500 dark:text-gray-400 space-y-1">
                     <p>Please check:</p>
                     <ul className="list-disc list-inside space-y-1 max-w-md mx-auto">
                       <li>The application ID is correct</li>
-                      <li>The application was submitted on this device</li>
-                      <li>Your browser's local storage hasn't been cleared</li>
+                      <li>The application was submitted successfully and you received a confirmation</li>
                     </ul>
                   </div>
                 </div>
@@ -272,8 +381,8 @@ export default function TrackApplication() {
               <CardTitle className="text-gray-900 dark:text-white">Need Help?</CardTitle>
             </CardHeader>
             <CardContent className="text-sm text-gray-600 dark:text-gray-300 space-y-2">
-              <p>• Application IDs are generated when you submit a new application</p>
-              <p>• Make sure you're using the same browser and device where you submitted your application</p>
+              <p>• Application IDs are shown on your confirmation screen and look like {exampleApplicationNumber()}</p>
+              <p>• You can look up your application from any device using its application ID</p>
               <p>• If you can't find your application ID, try creating a new application</p>
               <p>• Contact support if you continue to experience issues</p>
             </CardContent>
@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { CreditCard, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import FeeEstimateTable from "@/components/wizard/FeeEstimateTable"
+import type { Application } from "@/lib/application"
+import { cardDetailsSchema, EMPTY_CARD_DETAILS, type CardDetails } from "@/lib/payments/card"
+import { SIMULATED_TEST_CARDS } from "@/lib/payments/simulated"
+import { getRepository } from "@/lib/storage"
+import { formatDollars } from "@/lib/utils"
+
+const CARD_FIELDS: { name: keyof CardDetails; label: string; placeholder: string; autoComplete: string }[] = [
+  { name: "name", label: "Name on card", placeholder: "Jane Smith", autoComplete: "cc-name" },
+  { name: "number", label: "Card number", placeholder: "4242 4242 4242 4242", autoComplete: "cc-number" },
+  { name: "expiry", label: "Expiry (MM/YY)", placeholder: "12/28", autoComplete: "cc-exp" },
+  { name: "cvc", label: "Security code", placeholder: "123", autoComplete: "cc-csc" },
+]
+
+// Card payment for a submitted application's fees. Calls `onUpdated` with
+// the application as it stands after each attempt or status check.
+export default function PaymentPanel({
+  application,
+  onUpdated,
+}: {
+  application: Application
+  onUpdated: (application: Application) => void
+}) {
+  // One key per payment attempt: a retry after a network error reuses it, so
+  // the card can't be charged twice; a decline needs a fresh one
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
+  const [isWorking, setIsWorking] = useState(false)
+
+  const form = useForm<CardDetails>({
+    resolver: zodResolver(cardDetailsSchema),
+    defaultValues: { ...EMPTY_CARD_DETAILS, name: application.parties.applicant.name },
+  })
+
+  if (!application.fees) return null
+
+  const pay = async (card: CardDetails) => {
+    setIsWorking(true)
+    try {
+      const updated = await getRepository().payments.pay(application.applicationId, { card, idempotencyKey })
+      const attempt = updated.payments.at(-1)
+      if (updated.paymentStatus === "paid") {
+        toast.success("Payment received")
+      } else if (updated.paymentStatus === "pending") {
+        toast.info("Your payment is processing")
+      } else {
+        toast.error(attempt?.declineReason ?? "Your card was declined.")
+        setIdempotencyKey(crypto.randomUUID())
+      }
+      onUpdated(updated)
+    } catch (error) {
+      console.error("[v0] Error paying fees:", error)
+      toast.error(error instanceof Error ? error.message : "We couldn't process your payment. Please try again.")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const checkStatus = async () => {
+    setIsWorking(true)
+    try {
+      const updated = await getRepository().payments.refresh(application.applicationId)
+      if (updated.paymentStatus === "pending") toast.info("Your payment is still processing")
+      onUpdated(updated)
+    } catch (error) {
+      console.error("[v0] Error checking payment:", error)
+      toast.error("We couldn't check your payment. Please try again.")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const lastDecline = application.payments.findLast((attempt) => attempt.status === "declined")
+
+  return (
+    <div className="space-y-6">
+      <FeeEstimateTable estimate={application.fees} />
+
+      {application.paymentStatus === "pending" ? (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 rounded-md bg-blue-50 dark:bg-blue-900/20 p-4 text-sm text-blue-800 dark:text-blue-200">
+          <p>Your payment of {formatDollars(application.fees.total)} is processing. Your receipt will appear once it completes.</p>
+          <Button type="button" variant="outline" onClick={checkStatus} disabled={isWorking}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Check Status
+          </Button>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(pay)} className="space-y-4">
+            {lastDecline && application.paymentStatus === "unpaid" && (
+              <p className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+                {lastDecline.declineReason ?? "Your card was declined."} Please try another card.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {CARD_FIELDS.map((field) => (
+                <FormField
+                  key={field.name}
+                  control={form.control}
+                  name={field.name}
+                  render={({ field: input }) => (
+                    <FormItem className={field.name === "name" || field.name === "number" ? "md:col-span-2" : undefined}>
+                      <FormLabel>{field.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...input}
+                          placeholder={field.placeholder}
+                          autoComplete={field.autoComplete}
+                          inputMode={field.name === "name" ? undefined : "numeric"}
+                          disabled={isWorking}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Payments are simulated. Use {SIMULATED_TEST_CARDS.succeeds} to pay, {SIMULATED_TEST_CARDS.declined} for a
+              decline or {SIMULATED_TEST_CARDS.pending} for a payment that takes a few seconds to process, with any
+              future expiry and security code.
+            </p>
+            <Button type="submit" disabled={isWorking} className="w-full sm:w-auto">
+              <CreditCard className="w-4 h-4 mr-2" />
+              {isWorking ? "Processing..." : `Pay ${formatDollars(application.fees.total)}`}
+            </Button>
+          </form>
+        </Form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableFooter, TableRow } from "@/components/ui/table"
+import type { PaymentRefund, Receipt as PaymentReceipt } from "@/lib/application-payment"
+import { describeCard } from "@/lib/payments/card"
+import { formatDollars } from "@/lib/utils"
+
+function formatIssuedAt(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+// The numbered receipt issued when an application's fees are paid, with any
+// refunds made against it
+export default function Receipt({
+  applicationId,
+  receipt,
+  refunds = [],
+}: {
+  applicationId: string
+  receipt: PaymentReceipt
+  refunds?: PaymentRefund[]
+}) {
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-gray-600 dark:text-gray-400">Receipt</p>
+          <p className="font-mono text-lg font-semibold text-gray-900 dark:text-white">{receipt.receiptNumber}</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => window.print()} className="print:hidden">
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <dt className="text-gray-600 dark:text-gray-400">Application</dt>
+          <dd className="font-mono text-gray-900 dark:text-white">{applicationId}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-600 dark:text-gray-400">Paid</dt>
+          <dd className="text-gray-900 dark:text-white">{formatIssuedAt(receipt.issuedAt)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-600 dark:text-gray-400">Paid by</dt>
+          <dd className="text-gray-900 dark:text-white">{receipt.paidBy}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-600 dark:text-gray-400">Payment method</dt>
+          <dd className="text-gray-900 dark:text-white">{describeCard(receipt.card)}</dd>
+        </div>
+      </dl>
+
+      <Table>
+        <TableBody>
+          {receipt.lines.map((line, index) => (
+            <TableRow key={`${line.label}-${index}`}>
+              <TableCell>
+                <p className="font-medium text-gray-900 dark:text-white">{line.label}</p>
+                {line.detail && <p className="text-xs text-gray-500 dark:text-gray-400">{line.detail}</p>}
+              </TableCell>
+              <TableCell className="text-right align-top">{formatDollars(line.amount)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Total paid</TableCell>
+            <TableCell className="text-right">{formatDollars(receipt.total)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      {refunds.map((refund) => (
+        <p key={refund.refundId} className="rounded-md bg-gray-50 dark:bg-gray-900 p-3 text-gray-700 dark:text-gray-300">
+          Refunded {formatDollars(refund.amount)} on {formatIssuedAt(refund.at)}: {refund.reason}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { AlertCircle, CheckCircle, HelpCircle } from "lucide-react"
+import type { SignatureCheck, SignatureEvidence } from "@/lib/signature"
+
+function formatSignedAt(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  })
+}
+
+function CheckResult({ check }: { check: SignatureCheck }) {
+  if (check === "verified") {
+    return (
+      <p className="flex items-center gap-2 text-green-700 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        The application and its documents match what was signed
+      </p>
+    )
+  }
+  if (check === "modified") {
+    return (
+      <p className="flex items-center gap-2 text-red-700 dark:text-red-400">
+        <AlertCircle className="w-4 h-4" />
+        The application or its documents have changed since they were signed
+      </p>
+    )
+  }
+  return (
+    <p className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+      <HelpCircle className="w-4 h-4" />
+      Signed before documents were covered by the signature, so this record can&apos;t be checked
+    </p>
+  )
+}
+
+// The signature evidence stored with an application: the mark, who signed and
+// when, what they attested to, and the hash of the data they signed. `check`
+// is the result of verifying the hash, once known.
+export default function SignatureRecord({ signature, check }: { signature: SignatureEvidence; check?: SignatureCheck }) {
+  return (
+    <div className="space-y-3 text-sm">
+      {signature.method === "drawn" ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={signature.mark}
+          alt={`Signature of ${signature.signerName}`}
+          className="h-16 rounded border bg-white"
+        />
+      ) : (
+        <p className="font-serif italic text-2xl text-gray-900 dark:text-white">{signature.mark}</p>
+      )}
+      <p className="text-gray-700 dark:text-gray-300">
+        Signed by <span className="font-medium text-gray-900 dark:text-white">{signature.signerName}</span> on{" "}
+        {formatSignedAt(signature.signedAt)}
+      </p>
+      <ul className="list-disc list-inside space-y-1 text-gray-600 dark:text-gray-400">
+        {signature.attestations.map((statement) => (
+          <li key={statement}>{statement}</li>
+        ))}
+      </ul>
+      <p className="text-gray-600 dark:text-gray-400">
+        {signature.dataHash.algorithm} of signed data:{" "}
+        <span className="font-mono text-xs break-all text-gray-900 dark:text-white">{signature.dataHash.value}</span>
+      </p>
+      {check && <CheckResult check={check} />}
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Eye, FileText, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { Attachment } from "@/lib/application"
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_CATEGORY_KEYS,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES,
+  MAX_PDF_PAGES,
+  readAttachmentFile,
+  requiredDocuments,
+  type DocumentCategory,
+} from "@/lib/attachments"
+import { getRepository } from "@/lib/storage"
+
+interface AttachmentsStepProps {
+  ownerId: string
+  projectType: string
+  attachments: Attachment[]
+  onChange: (attachments: Attachment[]) => void
+}
+
+// One drop zone per document category, required categories first. Files are
+// saved as soon as they're added so they stay with the draft.
+export default function AttachmentsStep({ ownerId, projectType, attachments, onChange }: AttachmentsStepProps) {
+  const required = requiredDocuments(projectType)
+  const categories = [...required, ...DOCUMENT_CATEGORY_KEYS.filter((category) => !required.includes(category))]
+  const [preview, setPreview] = useState<{ attachment: Attachment; url: string } | null>(null)
+
+  const addFiles = async (category: DocumentCategory, files: FileList | null) => {
+    if (!files) return
+    const repository = getRepository()
+    let current = attachments
+    for (const file of Array.from(files)) {
+      const result = await readAttachmentFile(file, { ownerId, category })
+      if (!result.ok) {
+        toast.error(result.message)
+        continue
+      }
+      try {
+        await repository.attachments.save(result.attachment)
+        current = [...current, result.attachment]
+        onChange(current)
+      } catch (error) {
+        console.error("[v0] Error saving attachment:", error)
+        toast.error(`${file.name} couldn't be saved: ${(error as Error).message}`)
+      }
+    }
+  }
+
+  const removeAttachment = async (attachment: Attachment) => {
+    try {
+      await getRepository().attachments.delete(attachment.ownerId, attachment.id)
+      onChange(attachments.filter((a) => a.id !== attachment.id))
+    } catch (error) {
+      console.error("[v0] Error deleting attachment:", error)
+      toast.error(`${attachment.fileName} couldn't be removed`)
+    }
+  }
+
+  // Browsers won't display data: URLs for PDFs in frames, so preview from a blob
+  const openPreview = async (attachment: Attachment) => {
+    const blob = await (await fetch(attachment.dataUrl)).blob()
+    setPreview({ attachment, url: URL.createObjectURL(blob) })
+  }
+
+  const closePreview = () => {
+    if (preview) URL.revokeObjectURL(preview.url)
+    setPreview(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Accepted formats: {Object.values(ALLOWED_ATTACHMENT_TYPES).join(", ")}, up to{" "}
+        {formatFileSize(MAX_ATTACHMENT_BYTES)} each. PDFs may have up to {MAX_PDF_PAGES} pages.
+      </p>
+
+      {categories.map((category) => (
+        <CategoryDropZone
+          key={category}
+          category={category}
+          required={required.includes(category)}
+          attachments={attachments.filter((attachment) => attachment.category === category)}
+          onFiles={(files) => addFiles(category, files)}
+          onRemove={removeAttachment}
+          onPreview={openPreview}
+        />
+      ))}
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && closePreview()}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.attachment.fileName}</DialogTitle>
+          </DialogHeader>
+          {preview &&
+            (preview.attachment.mimeType === "application/pdf" ? (
+              <iframe src={preview.url} title={preview.attachment.fileName} className="w-full h-[70vh] rounded border" />
+            ) : (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={preview.url} alt={preview.attachment.fileName} className="max-h-[70vh] mx-auto" />
+            ))}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function CategoryDropZone({
+  category,
+  required,
+  attachments,
+  onFiles,
+  onRemove,
+  onPreview,
+}: {
+  category: DocumentCategory
+  required: boolean
+  attachments: Attachment[]
+  onFiles: (files: FileList | null) => void
+  onRemove: (attachment: Attachment) => void
+  onPreview: (attachment: Attachment) => void
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const { label, description } = DOCUMENT_CATEGORIES[category]
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white">{label}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">{description}</p>
+        </div>
+        <Badge variant={required ? "default" : "secondary"}>{required ? "Required" : "Optional"}</Badge>
+      </div>
+
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          onFiles(e.dataTransfer.files)
+        }}
+        className={`flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-sm cursor-pointer transition-colors ${
+          isDragging
+            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+            : "border-gray-300 dark:border-gray-600 hover:border-blue-400"
+        }`}
+      >
+        <Upload className="w-6 h-6 text-gray-400" />
+        <span className="text-gray-600 dark:text-gray-300">Drag files here or click to browse</span>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={Object.keys(ALLOWED_ATTACHMENT_TYPES).join(",")}
+          className="hidden"
+          onChange={(e) => {
+            onFiles(e.target.files)
+            e.target.value = ""
+          }}
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3 py-2">
+              {attachment.mimeType.startsWith("image/") ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={attachment.dataUrl} alt="" className="w-12 h-12 rounded object-cover border" />
+              ) : (
+                <div className="w-12 h-12 rounded border flex items-center justify-center bg-red-50 dark:bg-red-900/20">
+                  <FileText className="w-6 h-6 text-red-600 dark:text-red-400" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-sm font-medium text-gray-900 dark:text-white">{attachment.fileName}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(attachment.size)}</p>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => onPreview(attachment)}>
+                <Eye className="w-4 h-4" />
+                <span className="sr-only">Preview {attachment.fileName}</span>
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="text-red-600"
+                onClick={() => onRemove(attachment)}
+              >
+                <Trash2 className="w-4 h-4" />
+                <span className="sr-only">Remove {attachment.fileName}</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { COST_CATEGORIES, costBreakdownTotal, type CostLineItem } from "@/lib/cost-breakdown"
+import { formatDollars, parseNumberSafe } from "@/lib/utils"
+
+function categoryLabel(category: string): string {
+  return COST_CATEGORIES[category as keyof typeof COST_CATEGORIES] ?? category
+}
+
+// Read-only cost breakdown for the review step
+export default function CostBreakdownSummary({ items }: { items: CostLineItem[] }) {
+  if (items.length === 0) return <p className="text-gray-900 dark:text-white">No line items</p>
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Category</TableHead>
+          <TableHead>Description</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item, index) => (
+          <TableRow key={index}>
+            <TableCell>{categoryLabel(item.category)}</TableCell>
+            <TableCell>{item.description}</TableCell>
+            <TableCell className="text-right">{formatDollars(parseNumberSafe(item.amount) ?? 0)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={2}>Total</TableCell>
+          <TableCell className="text-right">{formatDollars(costBreakdownTotal(items))}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useFieldArray, useFormContext, useWatch } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import type { BuildingPermitForm } from "@/lib/application"
+import { COST_CATEGORIES, COST_CATEGORY_KEYS, costBreakdownTotal, type CostCategory } from "@/lib/cost-breakdown"
+import { formatDollars, parseNumberSafe } from "@/lib/utils"
+import type { FieldDefinition } from "@/lib/wizard"
+
+// Editable line items for costBreakdown with a running total. When the total
+// differs from the estimated cost the applicant can adopt it as the estimate.
+export default function CostBreakdownTable({ field: definition }: { field: FieldDefinition }) {
+  const {
+    control,
+    setValue,
+    formState: { errors },
+  } = useFormContext<BuildingPermitForm>()
+  const { fields, append, remove } = useFieldArray({ control, name: "costBreakdown" })
+  const items = useWatch({ control, name: "costBreakdown" }) ?? []
+  const estimatedCost = useWatch({ control, name: "estimatedCost" })
+  const total = costBreakdownTotal(items)
+  const estimate = parseNumberSafe(estimatedCost)
+  // Errors about the list as a whole, such as the total not matching; react-hook-form
+  // files them under `root` once the array has rows
+  const listError = errors.costBreakdown?.message ?? errors.costBreakdown?.root?.message
+
+  const addLine = (category: CostCategory) => append({ category, description: "", amount: "" })
+
+  const adoptTotalAsEstimate = () =>
+    setValue("estimatedCost", total.toFixed(2), { shouldValidate: true, shouldDirty: true })
+
+  return (
+    <FormField
+      control={control}
+      name="costBreakdown"
+      render={() => (
+        <FormItem>
+          <FormLabel>
+            {definition.label}
+            {definition.required && " *"}
+          </FormLabel>
+          {fields.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-36 text-right">Amount ($)</TableHead>
+                  <TableHead className="w-12">
+                    <span className="sr-only">Remove</span>
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((row, index) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="align-top">
+                      <FormField
+                        control={control}
+                        name={`costBreakdown.${index}.category`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger aria-label="Category">
+                                  <SelectValue placeholder="Category" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {COST_CATEGORY_KEYS.map((category) => (
+                                  <SelectItem key={category} value={category}>
+                                    {COST_CATEGORIES[category]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <FormField
+                        control={control}
+                        name={`costBreakdown.${index}.description`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input aria-label="Description" placeholder="e.g. Framing lumber" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <FormField
+                        control={control}
+                        name={`costBreakdown.${index}.amount`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                aria-label="Amount"
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                placeholder="0.00"
+                                className="text-right"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Button type="button" size="sm" variant="outline" className="text-red-600" onClick={() => remove(index)}>
+                        <Trash2 className="w-4 h-4" />
+                        <span className="sr-only">Remove line {index + 1}</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatDollars(total)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {COST_CATEGORY_KEYS.map((category) => (
+              <Button key={category} type="button" size="sm" variant="outline" onClick={() => addLine(category)}>
+                <Plus className="w-4 h-4" />
+                {COST_CATEGORIES[category]}
+              </Button>
+            ))}
+          </div>
+          {fields.length > 0 && estimate !== null && Math.round(total * 100) !== Math.round(estimate * 100) && (
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+              <span>
+                {formatDollars(Math.abs(total - estimate))} {total > estimate ? "over" : "short of"} the estimated
+                cost of {formatDollars(estimate)}
+              </span>
+              <Button type="button" size="sm" variant="secondary" onClick={adoptTotalAsEstimate}>
+                Use {formatDollars(total)} as the estimate
+              </Button>
+            </div>
+          )}
+          {definition.description && <FormDescription>{definition.description}</FormDescription>}
+          {listError && <p className="text-destructive text-sm">{listError}</p>}
+        </FormItem>
+      )}
+    />
+  )
+}
@@ -0,0 +1,37 @@
+import { Table, TableBody, TableCell, TableFooter, TableRow } from "@/components/ui/table"
+import type { FeeEstimate } from "@/lib/fees"
+import { formatDollars } from "@/lib/utils"
+
+// Itemized permit fees with anything that couldn't be calculated listed below
+export default function FeeEstimateTable({ estimate }: { estimate: FeeEstimate }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <Table>
+        <TableBody>
+          {estimate.lines.map((line, index) => (
+            <TableRow key={`${line.label}-${index}`}>
+              <TableCell>
+                <p className="font-medium text-gray-900 dark:text-white">{line.label}</p>
+                {line.detail && <p className="text-xs text-gray-500 dark:text-gray-400">{line.detail}</p>}
+              </TableCell>
+              <TableCell className="text-right align-top">{formatDollars(line.amount)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right">{formatDollars(estimate.total)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+      {estimate.notes.length > 0 && (
+        <ul className="list-disc list-inside text-yellow-800 dark:text-yellow-200">
+          {estimate.notes.map((note) => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import { AlertTriangle } from "lucide-react"
+
+// Advisory under a field; unlike a FormMessage it doesn't block the step
+export default function FieldWarning({ message }: { message: string }) {
+  return (
+    <p className="flex items-start gap-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20 p-3 text-sm text-yellow-800 dark:text-yellow-200">
+      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+      {message}
+    </p>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CheckCircle } from "lucide-react"
+import {
+  describeHicLookup,
+  HIC_NUMBER_PATTERN,
+  normalizeHicNumber,
+  REGISTRY_UNAVAILABLE,
+  type HicCheck,
+  type HicLookup,
+} from "@/lib/hic"
+import { lookupHicRegistration } from "@/lib/hic-registry"
+import FieldWarning from "./FieldWarning"
+
+// Registry check shown under a contractor registration number once it's in
+// the PA012345 format. Problems are warnings; they don't block the step.
+export default function HicStatus({ value }: { value: unknown }) {
+  const number = typeof value === "string" ? normalizeHicNumber(value) : ""
+  const [check, setCheck] = useState<{ number: string; result: HicCheck } | null>(null)
+
+  useEffect(() => {
+    if (!HIC_NUMBER_PATTERN.test(number)) return
+    let cancelled = false
+    lookupHicRegistration(number)
+      .catch((error): HicLookup => {
+        console.error("[v0] Error checking contractor registration:", error)
+        return { found: false, error: REGISTRY_UNAVAILABLE }
+      })
+      .then((lookup) => {
+        if (!cancelled) setCheck({ number, result: describeHicLookup(number, lookup) })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [number])
+
+  if (!check || check.number !== number) return null
+  const { level, message } = check.result
+
+  return level === "ok" ? (
+    <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+      <CheckCircle className="w-4 h-4" />
+      {message}
+    </p>
+  ) : (
+    <FieldWarning message={message} />
+  )
+}
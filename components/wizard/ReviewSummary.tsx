@@ -0,0 +1,146 @@
+"use client"
+
+import { AlertCircle, CheckCircle, Pencil } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Attachment, BuildingPermitForm } from "@/lib/application"
+import { DOCUMENT_CATEGORIES, formatFileSize, isDocumentCategory, missingDocuments } from "@/lib/attachments"
+import { stepIssues, visibleSections, type FieldDefinition, type StepDefinition } from "@/lib/wizard"
+import CostBreakdownSummary from "./CostBreakdownSummary"
+import FieldWarning from "./FieldWarning"
+import HicStatus from "./HicStatus"
+
+function readValue(values: BuildingPermitForm, name: string): unknown {
+  return name.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], values)
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "")
+}
+
+function ReviewField({ field, values }: { field: FieldDefinition; values: BuildingPermitForm }) {
+  const value = readValue(values, field.name)
+  if (field.review?.hideWhenEmpty && isEmpty(value)) return null
+  const warning = field.warning?.(values)
+  return (
+    <div className={field.review?.fullWidth ? "md:col-span-2" : undefined}>
+      <span className="font-medium text-gray-700 dark:text-gray-300">{field.review?.label ?? field.label}:</span>
+      {field.widget === "cost-breakdown" ? (
+        <CostBreakdownSummary items={values.costBreakdown} />
+      ) : (
+        <p className={`text-gray-900 dark:text-white${field.review?.fullWidth ? " mt-1" : ""}`}>
+          {field.review?.format ? field.review.format(value) : String(value ?? "")}
+        </p>
+      )}
+      {field.widget === "hic" && <HicStatus value={value} />}
+      {warning && <FieldWarning message={warning} />}
+    </div>
+  )
+}
+
+function StepStatus({ issues }: { issues: string[] }) {
+  if (issues.length === 0) {
+    return (
+      <span className="flex items-center gap-1 text-xs font-medium text-green-700 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        Complete
+      </span>
+    )
+  }
+  return (
+    <span className="flex items-center gap-1 text-xs font-medium text-red-700 dark:text-red-400">
+      <AlertCircle className="w-4 h-4" />
+      {issues.length === 1 ? "1 issue" : `${issues.length} issues`}
+    </span>
+  )
+}
+
+// One block per step, each with its validation status and, when `onEdit` is
+// given, a link back to that step
+export default function ReviewSummary({
+  steps,
+  values,
+  attachments = [],
+  onEdit,
+}: {
+  steps: StepDefinition[]
+  values: BuildingPermitForm
+  attachments?: Attachment[]
+  onEdit?: (stepId: string) => void
+}) {
+  const missing = missingDocuments(values.projectType, attachments)
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 p-6 rounded-lg">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Application Review</h3>
+      <div className="space-y-6">
+        {steps
+          .filter((step) => !step.isReview)
+          .map((step) => {
+            const issues = step.isAttachments
+              ? missing.map((category) => `Attach ${DOCUMENT_CATEGORIES[category].label}`)
+              : stepIssues(step, values).map(({ field, message }) => `${field.review?.label ?? field.label}: ${message}`)
+            return (
+              <section
+                key={step.id}
+                aria-labelledby={`review-${step.id}`}
+                className="pt-6 first:pt-0 border-t first:border-t-0 border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <div className="flex items-center gap-3">
+                    <h4 id={`review-${step.id}`} className="font-semibold text-gray-900 dark:text-white">
+                      {step.title}
+                    </h4>
+                    <StepStatus issues={issues} />
+                  </div>
+                  {onEdit && (
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => onEdit(step.id)}>
+                      <Pencil className="w-3 h-3 mr-1" />
+                      Edit<span className="sr-only"> {step.title}</span>
+                    </Button>
+                  )}
+                </div>
+                {issues.length > 0 && (
+                  <ul className="mb-3 list-disc list-inside text-sm text-red-700 dark:text-red-400">
+                    {issues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+                {step.isAttachments ? (
+                  <ul className="space-y-1 text-sm">
+                    {attachments.map((attachment) => (
+                      <li key={attachment.id} className="text-gray-900 dark:text-white">
+                        <span className="font-medium text-gray-700 dark:text-gray-300">
+                          {isDocumentCategory(attachment.category) ? DOCUMENT_CATEGORIES[attachment.category].label : "Other"}:
+                        </span>{" "}
+                        {attachment.fileName} ({formatFileSize(attachment.size)})
+                      </li>
+                    ))}
+                    {attachments.length === 0 && <li className="text-gray-600 dark:text-gray-400">No documents attached</li>}
+                  </ul>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                      {step.fields.map((field) => (
+                        <ReviewField key={field.name} field={field} values={values} />
+                      ))}
+                    </div>
+                    {visibleSections(step, values).map((section) => (
+                      <div key={section.id} className="mt-4">
+                        <h5 className="font-medium text-gray-900 dark:text-white mb-3">{section.title}</h5>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                          {section.fields.map((field) => (
+                            <ReviewField key={field.name} field={field} values={values} />
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </section>
+            )
+          })}
+      </div>
+    </div>
+  )
+}
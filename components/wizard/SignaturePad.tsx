@@ -0,0 +1,143 @@
+"use client"
+
+import { useEffect, useRef, type PointerEvent } from "react"
+import { useFormContext } from "react-hook-form"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import type { BuildingPermitForm } from "@/lib/application"
+import type { FieldDefinition, FieldName } from "@/lib/wizard"
+
+// Signature input with two modes: typing a name, shown in a script face, or
+// drawing on a canvas that's saved as a PNG data URL. Switching modes clears
+// the signature and sets the sibling `method` field.
+export default function SignaturePad({ field: definition }: { field: FieldDefinition }) {
+  const { control, setValue, watch } = useFormContext<BuildingPermitForm>()
+  const methodName = `${definition.name.slice(0, definition.name.lastIndexOf("."))}.method` as FieldName
+  const method = watch(methodName) === "drawn" ? "drawn" : "typed"
+
+  const setMark = (mark: string) => setValue(definition.name, mark, { shouldValidate: true, shouldDirty: true })
+
+  const chooseMethod = (next: string) => {
+    setValue(methodName, next)
+    setMark("")
+  }
+
+  // Typing is the default, so record it as soon as the pad is shown
+  useEffect(() => {
+    if (!watch(methodName)) setValue(methodName, "typed")
+  }, [methodName, setValue, watch])
+
+  return (
+    <FormField
+      control={control}
+      name={definition.name}
+      render={({ field }) => {
+        const mark = typeof field.value === "string" ? field.value : ""
+        return (
+          <FormItem>
+            <FormLabel>
+              {definition.label}
+              {definition.required && " *"}
+            </FormLabel>
+            <Tabs value={method} onValueChange={chooseMethod}>
+              <TabsList>
+                <TabsTrigger value="typed">Type</TabsTrigger>
+                <TabsTrigger value="drawn">Draw</TabsTrigger>
+              </TabsList>
+              <TabsContent value="typed" className="space-y-3">
+                <FormControl>
+                  <Input
+                    placeholder="Type your full name"
+                    value={method === "typed" ? mark : ""}
+                    onChange={(e) => setMark(e.target.value)}
+                    onBlur={field.onBlur}
+                  />
+                </FormControl>
+                {method === "typed" && mark && (
+                  <p className="border-b border-gray-400 pb-1 font-serif italic text-3xl text-gray-900 dark:text-white">
+                    {mark}
+                  </p>
+                )}
+              </TabsContent>
+              <TabsContent value="drawn">
+                <DrawingCanvas onChange={setMark} />
+              </TabsContent>
+            </Tabs>
+            {definition.description && <FormDescription>{definition.description}</FormDescription>}
+            <FormMessage />
+          </FormItem>
+        )
+      }}
+    />
+  )
+}
+
+function DrawingCanvas({ onChange }: { onChange: (dataUrl: string) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawing = useRef(false)
+
+  const context = () => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (ctx) {
+      ctx.lineWidth = 2
+      ctx.lineCap = "round"
+      ctx.lineJoin = "round"
+      ctx.strokeStyle = "#111827"
+    }
+    return ctx
+  }
+
+  // Pointer position in canvas pixels, which differ from CSS pixels when the canvas is scaled
+  const point = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    }
+  }
+
+  const clear = () => {
+    const canvas = canvasRef.current
+    if (canvas) canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height)
+    onChange("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={160}
+        aria-label="Signature drawing area"
+        className="w-full h-40 rounded-md border-2 border-dashed border-gray-300 dark:border-gray-600 bg-white touch-none cursor-crosshair"
+        onPointerDown={(e) => {
+          const ctx = context()
+          if (!ctx) return
+          e.currentTarget.setPointerCapture(e.pointerId)
+          drawing.current = true
+          const { x, y } = point(e)
+          ctx.beginPath()
+          ctx.moveTo(x, y)
+        }}
+        onPointerMove={(e) => {
+          if (!drawing.current) return
+          const ctx = context()
+          const { x, y } = point(e)
+          ctx?.lineTo(x, y)
+          ctx?.stroke()
+        }}
+        onPointerUp={(e) => {
+          if (!drawing.current) return
+          drawing.current = false
+          onChange(e.currentTarget.toDataURL("image/png"))
+        }}
+      />
+      <Button type="button" variant="outline" size="sm" onClick={clear}>
+        Clear
+      </Button>
+    </div>
+  )
+}
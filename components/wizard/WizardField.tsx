@@ -0,0 +1,159 @@
+"use client"
+
+import { useFormContext, useWatch } from "react-hook-form"
+import { CalendarIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import type { BuildingPermitForm } from "@/lib/application"
+import { normalizePhoneInput } from "@/lib/contact"
+import { normalizeHicNumber } from "@/lib/hic"
+import { formatScheduleDate, toScheduleDate } from "@/lib/schedule"
+import { coerceDate } from "@/lib/utils"
+import type { FieldDefinition, FieldWidget } from "@/lib/wizard"
+import CostBreakdownTable from "./CostBreakdownTable"
+import FieldWarning from "./FieldWarning"
+import HicStatus from "./HicStatus"
+import SignaturePad from "./SignaturePad"
+import ZipField from "./ZipField"
+
+// Re-evaluates a field's `warning` as the form changes
+function LiveFieldWarning({ definition }: { definition: FieldDefinition }) {
+  const values = useWatch<BuildingPermitForm>() as BuildingPermitForm
+  const message = definition.warning?.(values)
+  return message ? <FieldWarning message={message} /> : null
+}
+
+const INPUT_TYPES: Partial<Record<FieldWidget, string>> = { number: "number", email: "email", phone: "tel" }
+
+export default function WizardField({ field: definition }: { field: FieldDefinition }) {
+  const { control } = useFormContext<BuildingPermitForm>()
+
+  if (definition.widget === "pa-zip") {
+    return <ZipField field={definition} />
+  }
+
+  if (definition.widget === "signature") {
+    return <SignaturePad field={definition} />
+  }
+
+  if (definition.widget === "cost-breakdown") {
+    return <CostBreakdownTable field={definition} />
+  }
+
+  if (definition.widget === "checkbox") {
+    return (
+      <FormField
+        control={control}
+        name={definition.name}
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+            <FormControl>
+              <Checkbox checked={field.value === true} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <div className="space-y-1 leading-snug">
+              <FormLabel>
+                {definition.label}
+                {definition.required && " *"}
+              </FormLabel>
+              {definition.description && <FormDescription>{definition.description}</FormDescription>}
+              <FormMessage />
+            </div>
+          </FormItem>
+        )}
+      />
+    )
+  }
+
+  return (
+    <FormField
+      control={control}
+      name={definition.name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>
+            {definition.label}
+            {definition.required && " *"}
+          </FormLabel>
+          {definition.widget === "select" ? (
+            <Select onValueChange={field.onChange} value={typeof field.value === "string" ? field.value : ""}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder={definition.placeholder} />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {definition.options?.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : definition.widget === "date" ? (
+            <Popover>
+              <PopoverTrigger asChild>
+                <FormControl>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={`w-full justify-start font-normal${field.value ? "" : " text-muted-foreground"}`}
+                  >
+                    <CalendarIcon className="w-4 h-4" />
+                    {formatScheduleDate(field.value) || definition.placeholder}
+                  </Button>
+                </FormControl>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  captionLayout="dropdown"
+                  selected={coerceDate(field.value) ?? undefined}
+                  defaultMonth={coerceDate(field.value) ?? undefined}
+                  onSelect={(date) => field.onChange(toScheduleDate(date))}
+                />
+              </PopoverContent>
+            </Popover>
+          ) : (
+            <FormControl>
+              {definition.widget === "textarea" ? (
+                <Textarea
+                  placeholder={definition.placeholder}
+                  className="min-h-[120px]"
+                  {...field}
+                  value={typeof field.value === "string" ? field.value : ""}
+                />
+              ) : (
+                <Input
+                  type={INPUT_TYPES[definition.widget] ?? "text"}
+                  placeholder={definition.placeholder}
+                  {...definition.inputProps}
+                  {...field}
+                  value={typeof field.value === "string" ? field.value : ""}
+                  onBlur={() => {
+                    if (definition.widget === "phone" && typeof field.value === "string") {
+                      field.onChange(normalizePhoneInput(field.value))
+                    }
+                    if (definition.widget === "hic" && typeof field.value === "string") {
+                      field.onChange(normalizeHicNumber(field.value))
+                    }
+                    field.onBlur()
+                  }}
+                />
+              )}
+            </FormControl>
+          )}
+          {definition.widget === "hic" && <HicStatus value={field.value} />}
+          {definition.warning && <LiveFieldWarning definition={definition} />}
+          {definition.description && <FormDescription>{definition.description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
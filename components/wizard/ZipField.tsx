@@ -0,0 +1,126 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { useFormContext } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { lookupPennsylvaniaZip, ZIP_CODE_PATTERN, type ZipPlace } from "@/lib/address"
+import type { BuildingPermitForm } from "@/lib/application"
+import type { FieldDefinition, FieldName } from "@/lib/wizard"
+
+function placeLabel(place: ZipPlace): string {
+  return place.county ? `${place.municipality}, ${place.county} County` : place.municipality
+}
+
+// ZIP input for a Pennsylvania address group: looks the ZIP up once it's
+// complete, flags out-of-state codes and fills in the sibling municipality and
+// county fields from the result. When the ZIP spans several municipalities the
+// user picks which one the property is in.
+export default function ZipField({ field: definition }: { field: FieldDefinition }) {
+  const { control, getValues, setValue, setError, clearErrors, watch } = useFormContext<BuildingPermitForm>()
+  const [isChecking, setIsChecking] = useState(false)
+  const [choices, setChoices] = useState<ZipPlace[]>([])
+  // The ZIP most recently typed; lookups for anything else are stale
+  const latestZip = useRef("")
+  const group = definition.name.slice(0, definition.name.lastIndexOf("."))
+  const municipalityName = `${group}.municipality` as FieldName
+  const countyName = `${group}.county` as FieldName
+
+  const applyPlace = (place: ZipPlace) => {
+    setValue(municipalityName, place.municipality, { shouldValidate: true })
+    if (place.county) {
+      setValue(countyName, place.county, { shouldValidate: true })
+    }
+  }
+
+  const checkZip = async (zip: string) => {
+    latestZip.current = zip
+    setChoices([])
+    if (!ZIP_CODE_PATTERN.test(zip.trim())) {
+      setIsChecking(false)
+      return
+    }
+    setIsChecking(true)
+    const result = await lookupPennsylvaniaZip(zip)
+    // A slower lookup for an earlier ZIP must not overwrite the current one
+    if (zip !== latestZip.current) return
+    setIsChecking(false)
+    if (!result.ok) {
+      setError(definition.name, { type: "zip", message: result.message })
+      return
+    }
+    clearErrors(definition.name)
+    if (result.places.length === 1) {
+      if (result.places[0].municipality) applyPlace(result.places[0])
+      return
+    }
+    // Keep an earlier choice if it still fits this ZIP; otherwise make the user pick
+    const current = getValues(municipalityName)
+    if (!result.places.some((place) => place.municipality === current)) {
+      setValue(municipalityName, "")
+      setValue(countyName, "")
+    }
+    setChoices(result.places)
+  }
+
+  const municipality = watch(municipalityName)
+  const selectedChoice = choices.findIndex((place) => place.municipality === municipality)
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name={definition.name}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              {definition.label}
+              {definition.required && " *"}
+            </FormLabel>
+            <FormControl>
+              <Input
+                inputMode="numeric"
+                autoComplete="postal-code"
+                placeholder={definition.placeholder}
+                {...field}
+                value={typeof field.value === "string" ? field.value : ""}
+                onChange={(e) => {
+                  field.onChange(e)
+                  checkZip(e.target.value)
+                }}
+              />
+            </FormControl>
+            {isChecking ? (
+              <FormDescription>Checking ZIP code...</FormDescription>
+            ) : (
+              definition.description && <FormDescription>{definition.description}</FormDescription>
+            )}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {choices.length > 1 && (
+        <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
+          <Label>This ZIP code covers several municipalities. Which one is the property in?</Label>
+          <Select
+            value={selectedChoice === -1 ? "" : String(selectedChoice)}
+            onValueChange={(value) => applyPlace(choices[Number(value)])}
+          >
+            <SelectTrigger className="bg-white dark:bg-gray-800">
+              <SelectValue placeholder="Select the municipality" />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map((place, index) => (
+                <SelectItem key={placeLabel(place)} value={String(index)}>
+                  {placeLabel(place)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  )
+}
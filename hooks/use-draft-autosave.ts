@@ -0,0 +1,93 @@
+import * as React from "react"
+import type { UseFormReturn } from "react-hook-form"
+import type { BuildingPermitForm, Draft } from "@/lib/application"
+import { getRepository } from "@/lib/storage"
+
+// How long typing has to pause before the draft is written
+const SAVE_DELAY_MS = 800
+
+type DraftToSave = Omit<Draft, "updatedAt">
+
+function whenIdle(callback: () => void): () => void {
+  if (typeof window.requestIdleCallback === "function") {
+    const handle = window.requestIdleCallback(callback, { timeout: 2000 })
+    return () => window.cancelIdleCallback(handle)
+  }
+  const handle = window.setTimeout(callback, 0)
+  return () => window.clearTimeout(handle)
+}
+
+// Saves the wizard's draft without re-rendering the page on every keystroke:
+// form changes are picked up through form.subscribe, debounced, and written
+// when the browser is idle. Anything still unsaved is written straight away
+// when the page is hidden or unloaded.
+//
+// `buildDraft` turns the current values into the draft to save, or null when
+// there's nothing worth saving yet. Call `requestSave` when something outside
+// the form changes (the draft's name or step), and `cancel` before deleting it.
+export function useDraftAutosave(
+  form: UseFormReturn<BuildingPermitForm>,
+  buildDraft: (values: BuildingPermitForm) => DraftToSave | null,
+  onSaved?: (draft: Draft) => void,
+) {
+  const [savedAt, setSavedAt] = React.useState<string | null>(null)
+  const [isPending, setIsPending] = React.useState(false)
+
+  const latest = React.useRef({ buildDraft, onSaved })
+  React.useEffect(() => {
+    latest.current = { buildDraft, onSaved }
+  })
+
+  const pending = React.useRef(false)
+  const cancelTimers = React.useRef<(() => void) | null>(null)
+
+  const cancel = React.useCallback(() => {
+    cancelTimers.current?.()
+    cancelTimers.current = null
+    pending.current = false
+    setIsPending(false)
+  }, [])
+
+  // Writes now if there's anything unsaved. The local draft store writes
+  // synchronously, so this completes even from a pagehide handler.
+  const flush = React.useCallback(() => {
+    if (!pending.current) return
+    cancel()
+    const draft = latest.current.buildDraft(form.getValues())
+    if (!draft) return
+    getRepository()
+      .drafts.save(draft)
+      .then((saved) => {
+        setSavedAt(saved.updatedAt)
+        latest.current.onSaved?.(saved)
+      })
+      .catch((error) => console.error("[v0] Error saving draft:", error))
+  }, [form, cancel])
+
+  const requestSave = React.useCallback(() => {
+    cancelTimers.current?.()
+    pending.current = true
+    setIsPending(true)
+    const timeout = window.setTimeout(() => {
+      cancelTimers.current = whenIdle(flush)
+    }, SAVE_DELAY_MS)
+    cancelTimers.current = () => window.clearTimeout(timeout)
+  }, [flush])
+
+  React.useEffect(() => form.subscribe({ formState: { values: true }, callback: requestSave }), [form, requestSave])
+
+  React.useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush()
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    window.addEventListener("pagehide", flush)
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [flush])
+
+  return { savedAt, isPending, requestSave, flush, cancel }
+}
@@ -0,0 +1,96 @@
+import * as React from "react"
+import type { Draft } from "@/lib/application"
+
+// Tells other tabs of this browser when a draft is saved, submitted or
+// deleted, so two tabs editing the same draft don't silently overwrite each
+// other's work, and a draft that's gone isn't saved back or submitted twice.
+const CHANNEL_NAME = "permit-drafts"
+
+type DraftSyncMessage =
+  // A tab saved the draft
+  | { type: "saved"; draftId: string; tabId: string; draft: Draft }
+  // A tab resolved a conflict by continuing to edit; the others should stop
+  | { type: "claimed"; draftId: string; tabId: string }
+  // The draft became an application, or was deleted; nobody should save it again
+  | { type: "submitted"; draftId: string; tabId: string; applicationId: string }
+  | { type: "deleted"; draftId: string; tabId: string }
+
+// "editing": this tab saves as usual. "conflict": another tab saved the same
+// draft and this tab stops saving until the user decides what to do.
+// "read-only": another tab is editing and this one just follows along.
+// "closed": another tab submitted or deleted the draft, so it stays read-only.
+export type DraftSyncState = "editing" | "conflict" | "read-only" | "closed"
+
+// Why the draft was closed
+export type DraftClosure = { type: "submitted"; applicationId: string } | { type: "deleted" }
+
+// For pages that delete drafts without having them open
+export function announceDraftDeleted(draftId: string) {
+  if (typeof BroadcastChannel === "undefined") return
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.postMessage({ type: "deleted", draftId, tabId: "" } satisfies DraftSyncMessage)
+  channel.close()
+}
+
+// `isCurrent` says whether a draft another tab saved matches what this tab
+// already has, in which case there's nothing to resolve.
+export function useDraftSync(draftId: string, isCurrent: (draft: Draft) => boolean) {
+  const [state, setState] = React.useState<DraftSyncState>("editing")
+  // The other tab's latest save of this draft
+  const [remoteDraft, setRemoteDraft] = React.useState<Draft | null>(null)
+  const [closure, setClosure] = React.useState<DraftClosure | null>(null)
+  const [tabId] = React.useState(() => crypto.randomUUID())
+  const channel = React.useRef<BroadcastChannel | null>(null)
+
+  const latest = React.useRef(isCurrent)
+  React.useEffect(() => {
+    latest.current = isCurrent
+  })
+
+  React.useEffect(() => {
+    setState("editing")
+    setRemoteDraft(null)
+    setClosure(null)
+    if (!draftId || typeof BroadcastChannel === "undefined") return
+    const opened = new BroadcastChannel(CHANNEL_NAME)
+    opened.onmessage = ({ data }: MessageEvent<DraftSyncMessage>) => {
+      if (data.draftId !== draftId || data.tabId === tabId) return
+      if (data.type === "submitted" || data.type === "deleted") {
+        setState("closed")
+        setClosure(data.type === "submitted" ? { type: "submitted", applicationId: data.applicationId } : { type: "deleted" })
+      } else if (data.type === "saved") {
+        if (latest.current(data.draft)) return
+        setState((prev) => (prev === "editing" || prev === "conflict" ? "conflict" : prev))
+        setRemoteDraft(data.draft)
+      } else {
+        setState((prev) => (prev === "closed" ? prev : "read-only"))
+      }
+    }
+    channel.current = opened
+    return () => {
+      opened.close()
+      channel.current = null
+    }
+  }, [draftId, tabId])
+
+  const announceSave = React.useCallback(
+    (draft: Draft) => channel.current?.postMessage({ type: "saved", draftId, tabId, draft } satisfies DraftSyncMessage),
+    [draftId, tabId],
+  )
+
+  // Continue editing here; other tabs on this draft become read-only
+  const takeOver = React.useCallback(() => {
+    setState("editing")
+    channel.current?.postMessage({ type: "claimed", draftId, tabId } satisfies DraftSyncMessage)
+  }, [draftId, tabId])
+
+  const followOtherTab = React.useCallback(() => setState("read-only"), [])
+
+  const announceSubmitted = React.useCallback(
+    (applicationId: string) =>
+      channel.current?.postMessage({ type: "submitted", draftId, tabId, applicationId } satisfies DraftSyncMessage),
+    [draftId, tabId],
+  )
+
+  return { state, remoteDraft, closure, announceSave, announceSubmitted, takeOver, followOtherTab }
+}
@@ -0,0 +1,105 @@
+import { z } from "zod"
+import { lookupPaZip } from "./pa-zip-codes"
+import { validateUSZip } from "./zip-validator"
+
+// Permits are only issued for Pennsylvania properties, so the state is implied
+// rather than entered. The ZIP code must resolve to PA; the municipality and
+// county it maps to are used to pre-fill the rest of the address.
+
+export const ZIP_CODE_PATTERN = /^\d{5}(-\d{4})?$/
+
+export const addressSchema = z.object({
+  street: z
+    .string()
+    .trim()
+    .min(3, "Street address must be at least 3 characters")
+    .max(120, "Street address must be less than 120 characters"),
+  unit: z.string().trim().max(20, "Unit must be less than 20 characters"),
+  municipality: z
+    .string()
+    .trim()
+    .min(2, "Municipality is required")
+    .max(60, "Municipality must be less than 60 characters"),
+  county: z.string().trim().min(2, "County is required").max(40, "County must be less than 40 characters"),
+  zip: z.string().trim().regex(ZIP_CODE_PATTERN, "Enter a 5-digit ZIP code"),
+})
+
+export type Address = z.infer<typeof addressSchema>
+
+export const addressDraftSchema = z.object({
+  street: z.string(),
+  unit: z.string(),
+  municipality: z.string(),
+  county: z.string(),
+  zip: z.string(),
+})
+
+export const EMPTY_ADDRESS: Address = { street: "", unit: "", municipality: "", county: "", zip: "" }
+
+export function formatAddress(address: Address): string {
+  const street = [address.street, address.unit].map((part) => part.trim()).filter(Boolean).join(" ")
+  const locality = [address.municipality.trim(), `PA ${address.zip.trim()}`.trim()].filter(Boolean).join(", ")
+  return [street, locality].filter(Boolean).join(", ")
+}
+
+// Best-effort split of the free-text addresses stored before addresses were
+// structured, e.g. "123 Main St, Harrisburg, PA 17101". Whatever can't be
+// placed stays in `street` so nothing is lost.
+export function parseLegacyAddress(text: string): Address {
+  const segments = text.split(",").map((segment) => segment.trim())
+  const stateIndex = segments.findIndex((segment) => /^(PA|Pennsylvania)\b/i.test(segment))
+  if (stateIndex < 2) {
+    return { ...EMPTY_ADDRESS, street: text.trim() }
+  }
+  return {
+    ...EMPTY_ADDRESS,
+    street: segments.slice(0, stateIndex - 1).join(", "),
+    municipality: segments[stateIndex - 1],
+    zip: segments[stateIndex].match(/\d{5}(-\d{4})?/)?.[0] ?? "",
+  }
+}
+
+export interface ZipPlace {
+  municipality: string
+  county?: string
+}
+
+// `places` has more than one entry when the ZIP spans several municipalities
+export type ZipLookup = { ok: true; places: ZipPlace[] } | { ok: false; message: string }
+
+const zipLookups = new Map<string, ZipLookup>()
+
+// Resolves a ZIP code and rejects anything outside Pennsylvania. The bundled
+// PA table is checked first, so PA ZIPs resolve without the network; other
+// ZIPs go to the lookup service. Resolved ZIPs are cached; failed lookups are
+// not, so the next attempt retries. Never rejects: a lookup that can't be made
+// at all comes back as a not-ok result asking the user to try again.
+export async function lookupPennsylvaniaZip(zip: string): Promise<ZipLookup> {
+  const zip5 = zip.trim().slice(0, 5)
+  if (!ZIP_CODE_PATTERN.test(zip.trim())) {
+    return { ok: false, message: "Enter a 5-digit ZIP code" }
+  }
+  const bundled = lookupPaZip(zip5)
+  if (bundled.length > 0) {
+    return { ok: true, places: bundled }
+  }
+  const cached = zipLookups.get(zip5)
+  if (cached) return cached
+
+  let result: Awaited<ReturnType<typeof validateUSZip>>
+  try {
+    result = await validateUSZip(zip5)
+  } catch (error) {
+    console.error("[v0] ZIP lookup failed:", error)
+    return { ok: false, message: "We couldn't check this ZIP code right now. Please try again." }
+  }
+  if (!result.valid) {
+    return { ok: false, message: result.error ?? `ZIP code ${zip5} not found` }
+  }
+  const lookup: ZipLookup =
+    result.state === "PA"
+      ? { ok: true, places: result.places ?? [{ municipality: result.city ?? "", county: result.county }] }
+      : { ok: false, message: `ZIP code ${zip5} is in ${result.state ?? "another state"}; the property must be in Pennsylvania` }
+  zipLookups.set(zip5, lookup)
+  return lookup
+}
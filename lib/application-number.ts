@@ -0,0 +1,168 @@
+// Application numbers look like HRS-2026-00042-V: a three-letter municipality
+// code, the year, a per-municipality yearly sequence and a check character.
+
+const ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ"
+const LETTERS = ALPHABET.slice(10)
+const SEQUENCE_DIGITS = 5
+
+export const MAX_APPLICATION_SEQUENCE = 10 ** SEQUENCE_DIGITS - 1
+
+const APPLICATION_NUMBER_PATTERN = /^[A-Z]{3}-\d{4}-\d{5}-[0-9A-Z]$/
+// Numbers issued before this format existed, e.g. PA-1727040000000-K3J9X2QAB
+const LEGACY_APPLICATION_NUMBER_PATTERN = /^PA-\d{13}-[0-9A-Z]{9}$/
+
+// Luhn mod 36 over the alphanumeric characters; catches any single wrong
+// character and most swaps of neighbouring characters.
+export function checkCharacter(payload: string): string {
+  const codes = payload
+    .toUpperCase()
+    .split("")
+    .filter((c) => ALPHABET.includes(c))
+    .map((c) => ALPHABET.indexOf(c))
+  const n = ALPHABET.length
+  let factor = 2
+  let sum = 0
+  for (let i = codes.length - 1; i >= 0; i--) {
+    const addend = factor * codes[i]
+    sum += Math.floor(addend / n) + (addend % n)
+    factor = factor === 2 ? 1 : 2
+  }
+  return ALPHABET[(n - (sum % n)) % n]
+}
+
+// Words that don't tell municipalities apart, e.g. "Lower Paxton Township"
+const GENERIC_WORDS = new Set(["TOWNSHIP", "TWP", "BOROUGH", "BORO", "CITY", "TOWN", "OF", "THE"])
+
+// How a municipality's name is compared: "Wilkes-Barre" and "wilkes barre" are the same place
+export function municipalityKey(municipality: string): string {
+  return municipality.toUpperCase().replace(/[^A-Z]+/g, " ").trim()
+}
+
+function significantWords(municipality: string): string[] {
+  const words = municipalityKey(municipality).split(" ").filter(Boolean)
+  const significant = words.filter((word) => !GENERIC_WORDS.has(word))
+  return significant.length > 0 ? significant : words
+}
+
+// The code a municipality gets unless another one already has it: initials for
+// names of three or more words (USC for Upper Saint Clair), the first initial and
+// two letters of the second word for two (LPA for Lower Paxton), and the first
+// letter and following consonants for one (HRS for Harrisburg).
+export function preferredMunicipalityCode(municipality: string): string {
+  const words = significantWords(municipality)
+  let code: string
+  if (words.length >= 3) {
+    code = words
+      .slice(0, 3)
+      .map((word) => word[0])
+      .join("")
+  } else if (words.length === 2) {
+    code = words[0][0] + words[1].slice(0, 2)
+  } else {
+    const [word = ""] = words
+    const consonants = word.slice(1).replace(/[AEIOU]/g, "").replace(/(.)\1+/g, "$1")
+    code = word.slice(0, 1) + consonants + word.slice(1).replace(/[^AEIOU]/g, "")
+  }
+  return (code + "XXX").slice(0, 3)
+}
+
+// The preferred code first, then ones that keep as much of it as possible
+function* municipalityCodeCandidates(municipality: string): Generator<string> {
+  const preferred = preferredMunicipalityCode(municipality)
+  yield preferred
+  for (const c of LETTERS) yield preferred.slice(0, 2) + c
+  for (const b of LETTERS) for (const c of LETTERS) yield preferred[0] + b + c
+  for (const a of LETTERS) for (const b of LETTERS) for (const c of LETTERS) yield a + b + c
+}
+
+// Codes handed out so far, by municipalityKey
+export type MunicipalityCodes = Record<string, string>
+
+// Returns the municipality's code, giving it the first candidate no other
+// municipality has if it doesn't have one yet. `codes` is updated in place;
+// callers persist it, so a code once given never changes hands.
+export function claimMunicipalityCode(codes: MunicipalityCodes, municipality: string): string {
+  const key = municipalityKey(municipality)
+  const existing = codes[key]
+  if (existing) return existing
+  const taken = new Set(Object.values(codes))
+  for (const candidate of municipalityCodeCandidates(municipality)) {
+    if (!taken.has(candidate)) {
+      codes[key] = candidate
+      return candidate
+    }
+  }
+  throw new Error("Every municipality code is in use")
+}
+
+export function formatApplicationNumber({
+  code,
+  year,
+  sequence,
+}: {
+  code: string
+  year: number
+  sequence: number
+}): string {
+  if (!Number.isInteger(sequence) || sequence < 1 || sequence > MAX_APPLICATION_SEQUENCE) {
+    throw new Error(`Application sequence ${sequence} is out of range`)
+  }
+  const payload = `${code}-${year}-${String(sequence).padStart(SEQUENCE_DIGITS, "0")}`
+  return `${payload}-${checkCharacter(payload)}`
+}
+
+export interface ApplicationNumberStore {
+  // The municipality's code; see claimMunicipalityCode
+  municipalityCode(municipality: string): Promise<string>
+  nextSequence(scope: string): Promise<number>
+  exists(applicationId: string): Promise<boolean>
+}
+
+// Allocates the next unused number for the municipality. Each municipality has
+// its own code and so its own sequence. Sequences only ever increase, but
+// numbers already taken are skipped in case the counters were reset or a code
+// was shared before codes were registered.
+export async function allocateApplicationNumber(
+  municipality: string,
+  store: ApplicationNumberStore,
+  year = new Date().getFullYear(),
+): Promise<string> {
+  const code = await store.municipalityCode(municipality)
+  const scope = `${code}-${year}`
+  for (;;) {
+    const applicationId = formatApplicationNumber({ code, year, sequence: await store.nextSequence(scope) })
+    if (!(await store.exists(applicationId))) return applicationId
+  }
+}
+
+// Uppercases and strips whitespace so " hrs-2026-00042-v " is accepted
+export function normalizeApplicationNumber(input: string): string {
+  return input.toUpperCase().replace(/\s+/g, "")
+}
+
+export function validateApplicationNumber(input: string): { ok: true; value: string } | { ok: false; message: string } {
+  const value = normalizeApplicationNumber(input)
+  if (value === "") {
+    return { ok: false, message: "Enter your application number" }
+  }
+  if (LEGACY_APPLICATION_NUMBER_PATTERN.test(value)) {
+    return { ok: true, value }
+  }
+  if (!APPLICATION_NUMBER_PATTERN.test(value)) {
+    return {
+      ok: false,
+      message: `Application numbers look like ${exampleApplicationNumber()} (letters, year, five digits and a check character)`,
+    }
+  }
+  if (checkCharacter(value.slice(0, -2)) !== value.slice(-1)) {
+    return {
+      ok: false,
+      message: "That application number contains a typo. Please check each character against your confirmation.",
+    }
+  }
+  return { ok: true, value }
+}
+
+export function exampleApplicationNumber(): string {
+  return formatApplicationNumber({ code: "HRS", year: new Date().getFullYear(), sequence: 42 })
+}
@@ -0,0 +1,202 @@
+import { z } from "zod"
+import type { Application } from "./application"
+import { feeLineSchema } from "./fees"
+import { cardSummarySchema, type CardDetails } from "./payments/card"
+import type { Charge, PaymentProvider } from "./payments/types"
+
+// Paying an application's permit fees through a PaymentProvider and keeping
+// the outcome on the application record: every charge attempt, any refunds,
+// the resulting payment status and, once paid, a numbered receipt.
+
+export const PAYMENT_STATUSES = ["unpaid", "pending", "paid", "refunded"] as const
+
+export const paymentStatusSchema = z.enum(PAYMENT_STATUSES)
+
+export type PaymentStatus = z.infer<typeof paymentStatusSchema>
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  pending: "Payment Processing",
+  paid: "Paid",
+  refunded: "Refunded",
+}
+
+export const paymentAttemptSchema = z.object({
+  chargeId: z.string().min(1),
+  idempotencyKey: z.string().min(1),
+  amount: z.number().positive(),
+  status: z.enum(["succeeded", "pending", "declined"]),
+  card: cardSummarySchema,
+  declineReason: z.string().optional(),
+  at: z.iso.datetime(),
+})
+
+export type PaymentAttempt = z.infer<typeof paymentAttemptSchema>
+
+export const paymentRefundSchema = z.object({
+  refundId: z.string().min(1),
+  chargeId: z.string().min(1),
+  idempotencyKey: z.string().min(1),
+  amount: z.number().positive(),
+  reason: z.string().min(1),
+  at: z.iso.datetime(),
+})
+
+export type PaymentRefund = z.infer<typeof paymentRefundSchema>
+
+export const receiptSchema = z.object({
+  receiptNumber: z.string().regex(/^RCPT-\d{4}-\d{6}$/),
+  chargeId: z.string().min(1),
+  issuedAt: z.iso.datetime(),
+  paidBy: z.string().min(1),
+  card: cardSummarySchema,
+  lines: z.array(feeLineSchema).min(1),
+  total: z.number().positive(),
+})
+
+export type Receipt = z.infer<typeof receiptSchema>
+
+export type PaymentRecord = Pick<Application, "paymentStatus" | "payments" | "refunds" | "receipt">
+
+export const UNPAID: PaymentRecord = { paymentStatus: "unpaid", payments: [], refunds: [], receipt: null }
+
+// The application's payment state doesn't allow the requested operation
+export class PaymentNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentNotAllowedError"
+  }
+}
+
+export interface PaymentContext {
+  provider: PaymentProvider
+  // Counter for receipt numbers, as used for application numbers
+  nextSequence: (scope: string) => Promise<number>
+}
+
+export function formatReceiptNumber(year: number, sequence: number): string {
+  return `RCPT-${year}-${String(sequence).padStart(6, "0")}`
+}
+
+async function issueReceipt(
+  application: Application,
+  charge: Charge,
+  paidBy: string,
+  nextSequence: PaymentContext["nextSequence"],
+): Promise<Receipt> {
+  const issuedAt = new Date()
+  const year = issuedAt.getFullYear()
+  return {
+    receiptNumber: formatReceiptNumber(year, await nextSequence(`RCPT-${year}`)),
+    chargeId: charge.id,
+    issuedAt: issuedAt.toISOString(),
+    paidBy,
+    card: charge.card,
+    lines: application.fees?.lines ?? [{ label: "Permit fees", amount: charge.amount }],
+    total: charge.amount,
+  }
+}
+
+function statusFor(charge: Charge): PaymentStatus {
+  return charge.status === "succeeded" ? "paid" : charge.status === "pending" ? "pending" : "unpaid"
+}
+
+// Charges the application's calculated fees. Repeating a request with the
+// same idempotency key returns the application unchanged.
+export async function payApplication(
+  application: Application,
+  { card, idempotencyKey }: { card: CardDetails; idempotencyKey: string },
+  { provider, nextSequence }: PaymentContext,
+): Promise<Application> {
+  if (application.payments.some((attempt) => attempt.idempotencyKey === idempotencyKey)) return application
+  if (!application.fees) {
+    throw new PaymentNotAllowedError("No fees have been calculated for this application")
+  }
+  if (application.paymentStatus !== "unpaid") {
+    throw new PaymentNotAllowedError(`Fees for ${application.applicationId} are already ${PAYMENT_STATUS_LABELS[application.paymentStatus].toLowerCase()}`)
+  }
+
+  const charge = await provider.charge({
+    amount: application.fees.total,
+    description: `Permit fees for ${application.applicationId}`,
+    card,
+    idempotencyKey,
+  })
+  const attempt: PaymentAttempt = {
+    chargeId: charge.id,
+    idempotencyKey,
+    amount: charge.amount,
+    status: charge.status,
+    card: charge.card,
+    ...(charge.declineReason ? { declineReason: charge.declineReason } : {}),
+    at: charge.createdAt,
+  }
+  return {
+    ...application,
+    updatedAt: new Date().toISOString(),
+    paymentStatus: statusFor(charge),
+    payments: [...application.payments, attempt],
+    receipt: charge.status === "succeeded" ? await issueReceipt(application, charge, card.name.trim(), nextSequence) : null,
+  }
+}
+
+// Checks on a pending charge and records how it settled. A charge the provider
+// no longer knows about (the simulated gateway forgets its charges when the
+// server restarts) counts as declined, so the fees can be paid again.
+export async function refreshPayment(application: Application, { provider, nextSequence }: PaymentContext): Promise<Application> {
+  const pending = application.payments.findLast((attempt) => attempt.status === "pending")
+  if (application.paymentStatus !== "pending" || !pending) return application
+
+  const charge = await provider.retrieve(pending.chargeId)
+  if (!charge) {
+    return {
+      ...application,
+      updatedAt: new Date().toISOString(),
+      paymentStatus: "unpaid",
+      payments: application.payments.map((attempt) =>
+        attempt === pending
+          ? { ...attempt, status: "declined", declineReason: "The payment provider has no record of this charge" }
+          : attempt,
+      ),
+    }
+  }
+  if (charge.status === "pending") return application
+  return {
+    ...application,
+    updatedAt: new Date().toISOString(),
+    paymentStatus: statusFor(charge),
+    payments: application.payments.map((attempt) =>
+      attempt === pending
+        ? { ...attempt, status: charge.status, ...(charge.declineReason ? { declineReason: charge.declineReason } : {}) }
+        : attempt,
+    ),
+    receipt:
+      charge.status === "succeeded"
+        ? await issueReceipt(application, charge, application.parties.applicant.name, nextSequence)
+        : null,
+  }
+}
+
+// Refunds the paid fees in full, e.g. when an application is withdrawn
+export async function refundApplication(
+  application: Application,
+  { reason, idempotencyKey }: { reason: string; idempotencyKey: string },
+  { provider }: Pick<PaymentContext, "provider">,
+): Promise<Application> {
+  if (application.refunds.some((refund) => refund.idempotencyKey === idempotencyKey)) return application
+  if (application.paymentStatus !== "paid" || !application.receipt) {
+    throw new PaymentNotAllowedError(`Only paid fees can be refunded; ${application.applicationId} is ${PAYMENT_STATUS_LABELS[application.paymentStatus].toLowerCase()}`)
+  }
+
+  const { chargeId, total } = application.receipt
+  const refund = await provider.refund(chargeId, { amount: total, idempotencyKey })
+  return {
+    ...application,
+    updatedAt: new Date().toISOString(),
+    paymentStatus: "refunded",
+    refunds: [
+      ...application.refunds,
+      { refundId: refund.id, chargeId, idempotencyKey, amount: refund.amount, reason, at: refund.createdAt },
+    ],
+  }
+}
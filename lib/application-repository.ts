@@ -0,0 +1,178 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { Application, Attachment } from "./application"
+import { claimMunicipalityCode } from "./application-number"
+import { applicationRecordType, attachmentRecordType } from "./record-types"
+import { parseRecord, stampRecord, type RecordType } from "./versioned-record"
+
+const DATA_DIR = process.env.APPLICATIONS_DATA_DIR ?? path.join(process.cwd(), ".data", "applications")
+const ATTACHMENTS_DIR = path.join(DATA_DIR, "..", "attachments")
+const QUARANTINE_DIR = path.join(DATA_DIR, "..", "quarantine")
+const SEQUENCES_FILE = path.join(DATA_DIR, "..", "sequences.json")
+const MUNICIPALITY_CODES_FILE = path.join(DATA_DIR, "..", "municipality-codes.json")
+
+// IDs end up in file names, so only allow the characters our generators produce
+function isSafeId(id: string): boolean {
+  return /^[A-Za-z0-9-]+$/.test(id)
+}
+
+function fileFor(applicationId: string): string | null {
+  if (!isSafeId(applicationId)) return null
+  return path.join(DATA_DIR, `${applicationId}.json`)
+}
+
+function attachmentDirFor(ownerId: string): string | null {
+  if (!isSafeId(ownerId)) return null
+  return path.join(ATTACHMENTS_DIR, ownerId)
+}
+
+async function writeFileAtomic(file: string, contents: string) {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  // Write to a temp file first so a crash never leaves a half-written record
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, contents, "utf8")
+  await fs.rename(tmp, file)
+}
+
+// Moves an unreadable record aside, next to a note explaining why
+async function quarantine(file: string, reason: string) {
+  const target = path.join(QUARANTINE_DIR, `${path.basename(file, ".json")}.${Date.now()}.json`)
+  await fs.mkdir(QUARANTINE_DIR, { recursive: true })
+  await fs.rename(file, target)
+  await fs.writeFile(`${target}.reason.txt`, reason, "utf8")
+  console.warn(`Quarantined unreadable ${path.basename(file)}: ${reason}`)
+}
+
+async function writeRecord<T>(file: string, type: RecordType<T>, data: T) {
+  await writeFileAtomic(file, JSON.stringify(stampRecord(type, data), null, 2))
+}
+
+async function readRecordFile<T>(file: string, type: RecordType<T>): Promise<T | null> {
+  let raw: string
+  try {
+    raw = await fs.readFile(file, "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+
+  const result = parseRecord(type, raw)
+  if (!result.ok) {
+    await quarantine(file, result.reason)
+    return null
+  }
+  if (result.migrated) {
+    await writeRecord(file, type, result.data)
+  }
+  return result.data
+}
+
+// ---------- Applications ----------
+export async function saveApplication(application: Application): Promise<void> {
+  const file = fileFor(application.applicationId)
+  if (!file) {
+    throw new Error(`Invalid application ID: ${application.applicationId}`)
+  }
+  await writeRecord(file, applicationRecordType, application)
+}
+
+export async function findApplication(applicationId: string): Promise<Application | null> {
+  const file = fileFor(applicationId)
+  if (!file) return null
+  return readRecordFile(file, applicationRecordType)
+}
+
+export async function applicationExists(applicationId: string): Promise<boolean> {
+  const file = fileFor(applicationId)
+  if (!file) return false
+  try {
+    await fs.access(file)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Serializes updates to the counter files within this server process
+let countersLock: Promise<unknown> = Promise.resolve()
+
+// Reads a JSON object from `file` (empty if it doesn't exist yet), lets
+// `update` change it and writes it back
+function updateCounters<T, R>(file: string, update: (counters: Record<string, T>) => R): Promise<R> {
+  const result = countersLock.then(async () => {
+    let counters: Record<string, T> = {}
+    try {
+      counters = JSON.parse(await fs.readFile(file, "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    }
+    const value = update(counters)
+    await writeFileAtomic(file, JSON.stringify(counters, null, 2))
+    return value
+  })
+  countersLock = result.catch(() => undefined)
+  return result
+}
+
+// Returns the next number in `scope` (e.g. "HRS-2026"), starting at 1
+export function nextSequence(scope: string): Promise<number> {
+  return updateCounters<number, number>(SEQUENCES_FILE, (counters) => {
+    counters[scope] = (counters[scope] ?? 0) + 1
+    return counters[scope]
+  })
+}
+
+// The municipality's application number code, registered on first use
+export function municipalityCode(municipality: string): Promise<string> {
+  return updateCounters<string, string>(MUNICIPALITY_CODES_FILE, (codes) => claimMunicipalityCode(codes, municipality))
+}
+
+// Read-modify-write updates queued per application within this server process
+const applicationLocks = new Map<string, Promise<unknown>>()
+
+// Runs `update` once earlier updates of the same application have finished, so
+// two payment requests can't both see the fees as unpaid
+export function withApplicationLock<T>(applicationId: string, update: () => Promise<T>): Promise<T> {
+  const result = (applicationLocks.get(applicationId) ?? Promise.resolve()).then(update)
+  const settled = result.catch(() => undefined)
+  applicationLocks.set(applicationId, settled)
+  void settled.then(() => {
+    if (applicationLocks.get(applicationId) === settled) applicationLocks.delete(applicationId)
+  })
+  return result
+}
+
+// ---------- Attachments ----------
+export async function listAttachments(ownerId: string): Promise<Attachment[]> {
+  const dir = attachmentDirFor(ownerId)
+  if (!dir) return []
+
+  let files: string[]
+  try {
+    files = await fs.readdir(dir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+
+  const attachments: Attachment[] = []
+  for (const file of files.filter((name) => name.endsWith(".json"))) {
+    const attachment = await readRecordFile(path.join(dir, file), attachmentRecordType)
+    if (attachment) attachments.push(attachment)
+  }
+  return attachments.sort((a, b) => a.addedAt.localeCompare(b.addedAt))
+}
+
+export async function saveAttachment(attachment: Attachment): Promise<void> {
+  const dir = attachmentDirFor(attachment.ownerId)
+  if (!dir || !isSafeId(attachment.id)) {
+    throw new Error(`Invalid attachment ID: ${attachment.ownerId}/${attachment.id}`)
+  }
+  await writeRecord(path.join(dir, `${attachment.id}.json`), attachmentRecordType, attachment)
+}
+
+export async function deleteAttachment(ownerId: string, attachmentId: string): Promise<void> {
+  const dir = attachmentDirFor(ownerId)
+  if (!dir || !isSafeId(attachmentId)) return
+  await fs.rm(path.join(dir, `${attachmentId}.json`), { force: true })
+}
@@ -0,0 +1,138 @@
+import {
+  buildingPermitSchema,
+  type Application,
+  type ApplicationStatus,
+  type Attachment,
+  type BuildingPermitForm,
+  type StatusTransition,
+} from "./application"
+import { allocateApplicationNumber, type ApplicationNumberStore } from "./application-number"
+import { UNPAID } from "./application-payment"
+import { copyAttachments, deleteAttachments, missingDocuments, MissingDocumentsError } from "./attachments"
+import { calculateFees, feeInputFor } from "./fees"
+import { resolveParties } from "./parties"
+import { pruneProjectDetails } from "./project-details"
+import { createSignatureEvidence, signedDocuments, verifySignatureEvidence, type SignatureCheck } from "./signature"
+import type { AttachmentRepository } from "./storage/types"
+
+// Allowed next statuses for each step of the permit lifecycle.
+// Statuses with no entries are terminal.
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  submitted: ["completeness_check", "withdrawn"],
+  completeness_check: ["under_review", "corrections_requested", "rejected", "withdrawn"],
+  under_review: ["corrections_requested", "approved", "rejected", "withdrawn"],
+  corrections_requested: ["completeness_check", "withdrawn"],
+  approved: ["issued", "withdrawn"],
+  issued: ["inspections"],
+  inspections: ["finaled"],
+  finaled: [],
+  rejected: [],
+  withdrawn: [],
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly from: ApplicationStatus,
+    public readonly to: ApplicationStatus,
+  ) {
+    super(`Cannot move an application from "${from}" to "${to}"`)
+    this.name = "InvalidStatusTransitionError"
+  }
+}
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function isTerminalStatus(status: ApplicationStatus): boolean {
+  return STATUS_TRANSITIONS[status].length === 0
+}
+
+export function initialTransition(actor: string, at: string): StatusTransition {
+  return { from: null, to: "submitted", at, actor, note: "Application submitted" }
+}
+
+// The signature's data hash covers the application as stored, minus the signature itself
+export async function createApplicationRecord(
+  form: BuildingPermitForm,
+  applicationId: string,
+  documents: Attachment[],
+  at = new Date().toISOString(),
+): Promise<Application> {
+  const { signature, ...fields } = form
+  const signed = {
+    ...fields,
+    parties: resolveParties(form.parties),
+    projectDetails: pruneProjectDetails(form.projectType, form.projectDetails),
+    fees: calculateFees(feeInputFor(form)),
+  }
+  return {
+    ...signed,
+    signature: await createSignatureEvidence(signature, signed, await signedDocuments(documents), at),
+    ...UNPAID,
+    applicationId,
+    submittedAt: at,
+    updatedAt: at,
+    status: "submitted",
+    statusHistory: [initialTransition(form.parties.applicant.name, at)],
+  }
+}
+
+export interface SubmissionStore extends ApplicationNumberStore {
+  attachments: AttachmentRepository
+  save(application: Application): Promise<void>
+}
+
+// Turns a validated form and its draft's documents into a stored application.
+// Documents are copied onto the application before it is saved and only then
+// removed from the draft, so a failure part-way leaves the draft intact.
+export async function submitApplication(
+  form: BuildingPermitForm,
+  draftId: string,
+  store: SubmissionStore,
+): Promise<Application> {
+  const documents = await store.attachments.list(draftId)
+  const missing = missingDocuments(form.projectType, documents)
+  if (missing.length > 0) throw new MissingDocumentsError(missing)
+
+  const applicationId = await allocateApplicationNumber(form.propertyAddress.municipality, store)
+  const application = await createApplicationRecord(form, applicationId, documents)
+  await copyAttachments(store.attachments, documents, applicationId)
+  await store.save(application)
+  await deleteAttachments(store.attachments, draftId)
+  return application
+}
+
+// The parts of a stored application its signature covers: everything entered
+// on the form except the signature itself, plus the fees calculated from it
+function signedFields(application: Application): Record<string, unknown> {
+  const keys = [...Object.keys(buildingPermitSchema.shape).filter((key) => key !== "signature"), "fees"]
+  return Object.fromEntries(keys.map((key) => [key, application[key as keyof Application]]))
+}
+
+// Checks the application and its documents against what the applicant signed
+export async function verifyApplicationSignature(
+  application: Application,
+  documents: Attachment[],
+): Promise<SignatureCheck | "unsigned"> {
+  if (!application.signature) return "unsigned"
+  return verifySignatureEvidence(application.signature, signedFields(application), await signedDocuments(documents))
+}
+
+// Returns a copy of the application moved to `to`, with the move appended to its history
+export function transitionApplication(
+  application: Application,
+  to: ApplicationStatus,
+  { actor, note, at = new Date().toISOString() }: { actor: string; note?: string; at?: string },
+): Application {
+  if (!canTransition(application.status, to)) {
+    throw new InvalidStatusTransitionError(application.status, to)
+  }
+  const transition: StatusTransition = { from: application.status, to, at, actor, note }
+  return {
+    ...application,
+    status: to,
+    updatedAt: at,
+    statusHistory: [...application.statusHistory, transition],
+  }
+}
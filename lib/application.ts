@@ -0,0 +1,225 @@
+import { z } from "zod"
+import { addressDraftSchema, addressSchema, EMPTY_ADDRESS, formatAddress } from "./address"
+import { paymentAttemptSchema, paymentRefundSchema, paymentStatusSchema, receiptSchema } from "./application-payment"
+import {
+  costBreakdownDraftSchema,
+  costBreakdownSchema,
+  EMPTY_COST_BREAKDOWN,
+  validateCostBreakdown,
+} from "./cost-breakdown"
+import { contactDraftSchema, contactSchema, EMPTY_CONTACT } from "./contact"
+import { feeEstimateSchema, validateSquareFootage } from "./fees"
+import { hicNumberSchema } from "./hic"
+import { EMPTY_PARTIES, partiesDraftSchema, partiesSchema } from "./parties"
+import {
+  EMPTY_PROJECT_DETAILS,
+  projectDetailsSchema,
+  validateProjectDetails,
+} from "./project-details"
+import { EMPTY_SCHEDULE, scheduleDraftSchema, scheduleSchema } from "./schedule"
+import { EMPTY_SIGNATURE, signatureDraftSchema, signatureEvidenceSchema, signatureSchema } from "./signature"
+import { coerceNumberOrFail, isPositiveNumber, parseNumberSafe } from "./utils"
+
+export const PROJECT_TYPES = [
+  "New Construction - Residential",
+  "New Construction - Commercial",
+  "Addition - Residential",
+  "Addition - Commercial",
+  "Renovation - Interior",
+  "Renovation - Exterior",
+  "Deck/Patio Construction",
+  "Garage Construction",
+  "Shed Construction",
+  "Pool Installation",
+  "Electrical Work",
+  "Plumbing Work",
+  "HVAC Installation",
+  "Roofing Work",
+  "Demolition",
+  "Other",
+] as const
+
+export type ProjectType = (typeof PROJECT_TYPES)[number]
+
+// ---------- Permit Form ----------
+const buildingPermitFields = z.object({
+  // Applicant, owner and contractor; see lib/parties.ts
+  parties: partiesSchema,
+  contact: contactSchema,
+  // Pennsylvania is enforced by the ZIP lookup in lib/address.ts
+  propertyAddress: addressSchema,
+  projectType: z
+    .string()
+    .refine((val) => (PROJECT_TYPES as readonly string[]).includes(val), "Please select a project type"),
+  projectDescription: z
+    .string()
+    .min(10, "Project description must be at least 10 characters")
+    .max(1000, "Project description must be less than 1000 characters"),
+  estimatedCost: z.string().refine((val) => {
+    try {
+      const num = coerceNumberOrFail(val)
+      return isPositiveNumber(num)
+    } catch {
+      return false
+    }
+  }, "Estimated cost must be a positive number"),
+  // Floor area built, added or altered, for area-based fees; required for
+  // project types charged by area. Decks give theirs in projectDetails instead.
+  squareFootage: z.string().refine((val) => {
+    if (val.trim() === "") return true
+    const n = parseNumberSafe(val)
+    return n !== null && n > 0
+  }, "Area must be a positive number of square feet"),
+  // Line items that must add up to estimatedCost; see lib/cost-breakdown.ts
+  costBreakdown: costBreakdownSchema,
+  // PA Home Improvement Contractor registration; see lib/hic.ts
+  contractorLicense: hicNumberSchema,
+  // Project-type-specific answers; see lib/project-details.ts
+  projectDetails: projectDetailsSchema,
+  // Proposed start and completion dates; see lib/schedule.ts
+  schedule: scheduleSchema,
+  // Signature and attestations; stored as evidence on submission, see lib/signature.ts
+  signature: signatureSchema,
+})
+
+export const buildingPermitSchema = buildingPermitFields
+  .superRefine(validateProjectDetails)
+  .superRefine(validateCostBreakdown)
+  .superRefine(validateSquareFootage)
+
+export type BuildingPermitForm = z.infer<typeof buildingPermitSchema>
+
+export const EMPTY_BUILDING_PERMIT: BuildingPermitForm = {
+  parties: EMPTY_PARTIES,
+  contact: EMPTY_CONTACT,
+  propertyAddress: EMPTY_ADDRESS,
+  projectType: "",
+  projectDescription: "",
+  estimatedCost: "",
+  squareFootage: "",
+  costBreakdown: EMPTY_COST_BREAKDOWN,
+  contractorLicense: "",
+  projectDetails: EMPTY_PROJECT_DETAILS,
+  schedule: EMPTY_SCHEDULE,
+  signature: EMPTY_SIGNATURE,
+}
+
+// Drafts hold whatever has been typed so far, so fields are unvalidated strings
+export const buildingPermitDraftSchema = z.object({
+  parties: partiesDraftSchema,
+  contact: contactDraftSchema,
+  propertyAddress: addressDraftSchema,
+  projectType: z.string(),
+  projectDescription: z.string(),
+  estimatedCost: z.string(),
+  squareFootage: z.string(),
+  costBreakdown: costBreakdownDraftSchema,
+  contractorLicense: z.string().optional(),
+  projectDetails: projectDetailsSchema,
+  schedule: scheduleDraftSchema,
+  signature: signatureDraftSchema,
+})
+
+export const draftSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().max(100, "Draft name must be less than 100 characters"),
+  // ID of the wizard step the draft was last on
+  step: z.string().min(1),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  values: buildingPermitDraftSchema,
+})
+
+export type Draft = z.infer<typeof draftSchema>
+
+// ---------- Attachments ----------
+// Files belong to either a draft or a submitted application (`ownerId`)
+export const attachmentSchema = z.object({
+  id: z.string().min(1),
+  ownerId: z.string().min(1),
+  // A DOCUMENT_CATEGORIES key from lib/attachments.ts
+  category: z.string().min(1),
+  fileName: z.string().min(1),
+  mimeType: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  dataUrl: z.string().startsWith("data:"),
+  addedAt: z.iso.datetime(),
+})
+
+export type Attachment = z.infer<typeof attachmentSchema>
+
+// ---------- Application Record ----------
+export const APPLICATION_STATUSES = [
+  "submitted",
+  "completeness_check",
+  "under_review",
+  "corrections_requested",
+  "approved",
+  "issued",
+  "inspections",
+  "finaled",
+  "rejected",
+  "withdrawn",
+] as const
+
+export const applicationStatusSchema = z.enum(APPLICATION_STATUSES)
+
+export type ApplicationStatus = z.infer<typeof applicationStatusSchema>
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  submitted: "Submitted",
+  completeness_check: "Completeness Check",
+  under_review: "Under Review",
+  corrections_requested: "Corrections Requested",
+  approved: "Approved",
+  issued: "Permit Issued",
+  inspections: "Inspections",
+  finaled: "Finaled",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+}
+
+export const statusTransitionSchema = z.object({
+  from: applicationStatusSchema.nullable(),
+  to: applicationStatusSchema,
+  at: z.iso.datetime(),
+  actor: z.string().min(1, "Actor is required"),
+  note: z.string().max(500, "Note must be less than 500 characters").optional(),
+})
+
+export type StatusTransition = z.infer<typeof statusTransitionSchema>
+
+// Stored applications were validated when submitted; older ones predate the
+// project-type questions, so those aren't re-checked here
+export const applicationSchema = buildingPermitFields.extend({
+  // Addresses split out of older free-text records may be missing parts,
+  // applications from before contact details, parties, schedules and cost
+  // breakdowns were collected have only what could be carried over, and older
+  // contractor licenses predate the HIC number format
+  propertyAddress: addressDraftSchema,
+  contact: contactDraftSchema,
+  parties: partiesDraftSchema,
+  schedule: scheduleDraftSchema,
+  costBreakdown: costBreakdownDraftSchema,
+  contractorLicense: z.string().optional(),
+  // Null for applications submitted before signing was added
+  signature: signatureEvidenceSchema.nullable(),
+  // Fees calculated at submission; null for applications from before fee estimates
+  fees: feeEstimateSchema.nullable(),
+  // Fee payment; see lib/application-payment.ts
+  paymentStatus: paymentStatusSchema,
+  payments: z.array(paymentAttemptSchema),
+  refunds: z.array(paymentRefundSchema),
+  receipt: receiptSchema.nullable(),
+  applicationId: z.string().min(1),
+  submittedAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  status: applicationStatusSchema,
+  statusHistory: z.array(statusTransitionSchema).min(1),
+})
+
+export type Application = z.infer<typeof applicationSchema>
+
+export function applicationTitle(application: Pick<Application, "projectType" | "propertyAddress">): string {
+  return `${application.projectType} - ${formatAddress(application.propertyAddress)}`
+}
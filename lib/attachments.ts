@@ -0,0 +1,155 @@
+import type { Attachment } from "./application"
+import type { AttachmentRepository } from "./storage/types"
+
+// Plans and documents submitted with a permit. Each project type requires
+// certain document categories before the application can be submitted; any
+// other category may be attached as supporting material. Files are stored as
+// data URLs: on the server in server mode, and in IndexedDB in local mode.
+
+export const DOCUMENT_CATEGORIES = {
+  "site-plan": {
+    label: "Site Plan",
+    description: "Property lines, existing structures and where the work will go, with setbacks",
+  },
+  "construction-drawings": {
+    label: "Construction Drawings",
+    description: "Floor plans, elevations and structural details",
+  },
+  "spec-sheets": {
+    label: "Product Specification Sheets",
+    description: "Manufacturer specs for equipment, fixtures or materials being installed",
+  },
+  other: {
+    label: "Other Supporting Documents",
+    description: "Anything else the building department should see",
+  },
+} as const
+
+export type DocumentCategory = keyof typeof DOCUMENT_CATEGORIES
+
+export const DOCUMENT_CATEGORY_KEYS = Object.keys(DOCUMENT_CATEGORIES) as DocumentCategory[]
+
+const REQUIRED_DOCUMENTS: Record<string, DocumentCategory[]> = {
+  "New Construction - Residential": ["site-plan", "construction-drawings"],
+  "New Construction - Commercial": ["site-plan", "construction-drawings", "spec-sheets"],
+  "Addition - Residential": ["site-plan", "construction-drawings"],
+  "Addition - Commercial": ["site-plan", "construction-drawings"],
+  "Renovation - Interior": ["construction-drawings"],
+  "Renovation - Exterior": ["construction-drawings"],
+  "Deck/Patio Construction": ["site-plan", "construction-drawings"],
+  "Garage Construction": ["site-plan", "construction-drawings"],
+  "Shed Construction": ["site-plan"],
+  "Pool Installation": ["site-plan", "spec-sheets"],
+  "Electrical Work": ["spec-sheets"],
+  "Plumbing Work": ["construction-drawings"],
+  "HVAC Installation": ["spec-sheets"],
+  "Roofing Work": ["spec-sheets"],
+  Demolition: ["site-plan"],
+}
+
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+  "application/pdf": "PDF",
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+}
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+
+export const MAX_PDF_PAGES = 50
+
+export function requiredDocuments(projectType: string): DocumentCategory[] {
+  return REQUIRED_DOCUMENTS[projectType] ?? []
+}
+
+export function missingDocuments(projectType: string, attachments: Pick<Attachment, "category">[]): DocumentCategory[] {
+  return requiredDocuments(projectType).filter(
+    (category) => !attachments.some((attachment) => attachment.category === category),
+  )
+}
+
+// A submission is missing documents its project type requires
+export class MissingDocumentsError extends Error {
+  constructor(readonly missing: DocumentCategory[]) {
+    super(`Please attach: ${missing.map((category) => DOCUMENT_CATEGORIES[category].label).join(", ")}`)
+    this.name = "MissingDocumentsError"
+  }
+}
+
+export function isDocumentCategory(value: string): value is DocumentCategory {
+  return value in DOCUMENT_CATEGORIES
+}
+
+// Counts page objects in a PDF's raw bytes (one char per byte). PDFs that keep
+// their page tree in compressed object streams hide these, in which case this
+// returns null and the page limit isn't enforced.
+export function countPdfPages(binary: string): number | null {
+  const pages = binary.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0
+  return pages > 0 ? pages : null
+}
+
+// Reason a file can't be attached, or null if it's acceptable
+export function attachmentProblem(file: { mimeType: string; size: number; pages: number | null }): string | null {
+  if (!(file.mimeType in ALLOWED_ATTACHMENT_TYPES)) {
+    return `Only ${Object.values(ALLOWED_ATTACHMENT_TYPES).join(", ")} files can be attached`
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `Files must be ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB or smaller`
+  }
+  if (file.pages !== null && file.pages > MAX_PDF_PAGES) {
+    return `PDFs can have at most ${MAX_PDF_PAGES} pages; this one has ${file.pages}. Split it into several files.`
+  }
+  return null
+}
+
+// Decodes a base64 data URL into one char per byte, for countPdfPages
+export function dataUrlToBinary(dataUrl: string): string {
+  return atob(dataUrl.slice(dataUrl.indexOf(",") + 1))
+}
+
+export async function readAttachmentFile(
+  file: File,
+  details: { ownerId: string; category: DocumentCategory },
+): Promise<{ ok: true; attachment: Attachment } | { ok: false; message: string }> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+  const pages = file.type === "application/pdf" ? countPdfPages(dataUrlToBinary(dataUrl)) : null
+  const problem = attachmentProblem({ mimeType: file.type, size: file.size, pages })
+  if (problem) return { ok: false, message: `${file.name}: ${problem}` }
+  return {
+    ok: true,
+    attachment: {
+      id: crypto.randomUUID(),
+      ownerId: details.ownerId,
+      category: details.category,
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+      dataUrl,
+      addedAt: new Date().toISOString(),
+    },
+  }
+}
+
+// Gives a draft's files to the application it became. The draft keeps its
+// copies; delete them once the application itself has been saved.
+export async function copyAttachments(repository: AttachmentRepository, attachments: Attachment[], toOwnerId: string) {
+  for (const attachment of attachments) {
+    await repository.save({ ...attachment, ownerId: toOwnerId })
+  }
+}
+
+export async function deleteAttachments(repository: AttachmentRepository, ownerId: string) {
+  for (const attachment of await repository.list(ownerId)) {
+    await repository.delete(ownerId, attachment.id)
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
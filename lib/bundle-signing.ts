@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { canonicalJson } from "./signature"
+
+// Export bundles are signed with an HMAC keyed by BUNDLE_SIGNING_KEY, which
+// never leaves the server, so a bundle edited after it was exported no longer
+// matches its signature on import. Both return null when no key is configured.
+export const BUNDLE_SIGNATURE_ALGORITHM = "HMAC-SHA256"
+
+function hmac(key: string, payload: unknown): Buffer {
+  return createHmac("sha256", key).update(canonicalJson(payload)).digest()
+}
+
+function signingKey(): string | null {
+  return process.env.BUNDLE_SIGNING_KEY?.trim() || null
+}
+
+export function signBundlePayload(payload: unknown): string | null {
+  const key = signingKey()
+  return key ? hmac(key, payload).toString("hex") : null
+}
+
+export function verifyBundlePayload(payload: unknown, signature: string): boolean | null {
+  const key = signingKey()
+  if (!key) return null
+  const expected = hmac(key, payload)
+  const given = Buffer.from(signature, "hex")
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
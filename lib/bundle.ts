@@ -0,0 +1,224 @@
+import { z } from "zod"
+import { applicationTitle, type Application, type Attachment, type Draft } from "./application"
+import { draftTitle } from "./drafts"
+import { applicationRecordType, attachmentRecordType, draftRecordType } from "./record-types"
+import type { PermitRepository } from "./storage/types"
+import { readRecord, stampRecord, type RecordType } from "./versioned-record"
+
+// A portable backup of everything this browser knows about. Each record keeps
+// its own schema version so importing runs the usual migrations. The server
+// signs the payload with a key only it holds (see lib/bundle-signing.ts), so
+// damaged or edited files are rejected rather than imported.
+
+const BUNDLE_FORMAT = "pa-building-permit-bundle"
+const BUNDLE_VERSION = 3
+// Earlier versions carried an unkeyed checksum, which anyone could recompute
+const FIRST_SIGNED_VERSION = 3
+
+const envelopeSchema = z.object({
+  schemaVersion: z.number().int(),
+  savedAt: z.string(),
+  data: z.unknown(),
+})
+
+const signatureSchema = z.object({ algorithm: z.literal("HMAC-SHA256"), value: z.string() })
+
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.iso.datetime(),
+  signature: z.unknown().optional(),
+  payload: z.object({
+    drafts: z.array(envelopeSchema),
+    applications: z.array(envelopeSchema),
+    attachments: z.array(envelopeSchema),
+  }),
+})
+
+export type PermitBundle = z.infer<typeof bundleSchema>
+
+export interface BundleContents {
+  drafts: Draft[]
+  applications: Application[]
+  attachments: Attachment[]
+}
+
+export interface ImportItem {
+  kind: "draft" | "application" | "attachment"
+  id: string
+  label: string
+  duplicate: boolean
+}
+
+export interface ImportPreview {
+  contents: BundleContents
+  items: ImportItem[]
+}
+
+async function postBundle(path: string, body: unknown): Promise<unknown> {
+  const response = await fetch(`/api/bundles/${path}`, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(result.error ?? `POST /api/bundles/${path} failed with status ${response.status}`)
+  return result
+}
+
+async function signPayload(payload: PermitBundle["payload"]) {
+  return signatureSchema.parse(await postBundle("signatures", { payload }))
+}
+
+async function payloadMatches(payload: PermitBundle["payload"], signature: string): Promise<boolean> {
+  return z.object({ valid: z.boolean() }).parse(await postBundle("verifications", { payload, signature })).valid
+}
+
+export async function createBundle(repository: PermitRepository): Promise<PermitBundle> {
+  const { drafts } = await repository.drafts.list()
+  const applications = await repository.applications.list()
+  const owners = [...drafts.map((draft) => draft.id), ...applications.map((app) => app.applicationId)]
+  const attachments = (await Promise.all(owners.map((owner) => repository.attachments.list(owner)))).flat()
+
+  const payload: PermitBundle["payload"] = {
+    drafts: drafts.map((draft) => stampRecord(draftRecordType, draft)),
+    applications: applications.map((application) => stampRecord(applicationRecordType, application)),
+    attachments: attachments.map((attachment) => stampRecord(attachmentRecordType, attachment)),
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    signature: await signPayload(payload),
+    payload,
+  }
+}
+
+export function bundleFileName(bundle: PermitBundle): string {
+  return `building-permits-${bundle.exportedAt.slice(0, 10)}.json`
+}
+
+export async function parseBundle(text: string): Promise<{ ok: true; contents: BundleContents } | { ok: false; reason: string }> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, reason: "The file is not valid JSON" }
+  }
+
+  const parsed = bundleSchema.safeParse(raw)
+  if (!parsed.success) {
+    return { ok: false, reason: "The file is not a building permit export" }
+  }
+  const bundle = parsed.data
+  if (bundle.version > BUNDLE_VERSION) {
+    return { ok: false, reason: "The file was exported by a newer version of this app" }
+  }
+  const signature = signatureSchema.safeParse(bundle.signature)
+  if (bundle.version < FIRST_SIGNED_VERSION || !signature.success) {
+    return { ok: false, reason: "The file isn't signed. Export it again from the device it came from." }
+  }
+  try {
+    if (!(await payloadMatches(bundle.payload, signature.data.value))) {
+      return { ok: false, reason: "The file's signature doesn't match its contents; it was changed or damaged" }
+    }
+  } catch (error) {
+    return { ok: false, reason: `We couldn't check the file's signature: ${(error as Error).message}` }
+  }
+
+  const read = <T>(records: unknown[], type: RecordType<T>) => {
+    const out: T[] = []
+    for (const record of records) {
+      const result = readRecord(type, record)
+      if (!result.ok) throw new Error(result.reason)
+      out.push(result.data)
+    }
+    return out
+  }
+
+  try {
+    return {
+      ok: true,
+      contents: {
+        drafts: read(bundle.payload.drafts, draftRecordType),
+        applications: read(bundle.payload.applications, applicationRecordType),
+        attachments: read(bundle.payload.attachments, attachmentRecordType),
+      },
+    }
+  } catch (error) {
+    return { ok: false, reason: `The file contains an unreadable record: ${(error as Error).message}` }
+  }
+}
+
+// Matches records by ID against what's already here; duplicates are left untouched on import
+export async function previewImport(repository: PermitRepository, contents: BundleContents): Promise<ImportPreview> {
+  const { drafts } = await repository.drafts.list()
+  const applications = await repository.applications.list()
+  const draftIds = new Set(drafts.map((draft) => draft.id))
+  const applicationIds = new Set(applications.map((application) => application.applicationId))
+
+  const attachmentKeys = new Set<string>()
+  const owners = new Set(contents.attachments.map((attachment) => attachment.ownerId))
+  for (const owner of owners) {
+    for (const attachment of await repository.attachments.list(owner)) {
+      attachmentKeys.add(`${attachment.ownerId}/${attachment.id}`)
+    }
+  }
+
+  const items: ImportItem[] = [
+    ...contents.drafts.map((draft) => ({
+      kind: "draft" as const,
+      id: draft.id,
+      label: draftTitle(draft),
+      duplicate: draftIds.has(draft.id),
+    })),
+    ...contents.applications.map((application) => ({
+      kind: "application" as const,
+      id: application.applicationId,
+      label: `${application.applicationId}: ${applicationTitle(application)}`,
+      duplicate: applicationIds.has(application.applicationId),
+    })),
+    ...contents.attachments.map((attachment) => ({
+      kind: "attachment" as const,
+      id: `${attachment.ownerId}/${attachment.id}`,
+      label: attachment.fileName,
+      duplicate: attachmentKeys.has(`${attachment.ownerId}/${attachment.id}`),
+    })),
+  ]
+  return { contents, items }
+}
+
+export async function applyImport(
+  repository: PermitRepository,
+  { contents, items }: ImportPreview,
+): Promise<{ imported: number; skipped: number; failed: string[] }> {
+  const duplicates = new Set(items.filter((item) => item.duplicate).map((item) => `${item.kind}:${item.id}`))
+  let imported = 0
+  const failed: string[] = []
+
+  const attempt = async (key: string, label: string, save: () => Promise<void>) => {
+    if (duplicates.has(key)) return
+    try {
+      await save()
+      imported++
+    } catch (error) {
+      failed.push(`${label}: ${(error as Error).message}`)
+    }
+  }
+
+  for (const draft of contents.drafts) {
+    await attempt(`draft:${draft.id}`, draftTitle(draft), () => repository.drafts.restore(draft))
+  }
+  for (const application of contents.applications) {
+    await attempt(`application:${application.applicationId}`, application.applicationId, () =>
+      repository.applications.restore(application),
+    )
+  }
+  for (const attachment of contents.attachments) {
+    await attempt(`attachment:${attachment.ownerId}/${attachment.id}`, attachment.fileName, () =>
+      repository.attachments.save(attachment),
+    )
+  }
+  return { imported, skipped: duplicates.size, failed }
+}
@@ -0,0 +1,103 @@
+import { z } from "zod"
+import { formatUSPhone, keepDigits, sanitizeUSPhone } from "./utils"
+
+// How the permit office reaches the applicant about their application. The
+// mailing address can be anywhere in the US, unlike the property address.
+// Phone and email rules are shared with the parties in lib/parties.ts.
+
+export const CONTACT_METHODS = ["Email", "Phone", "Mail"] as const
+
+export const US_STATE_CODES = [
+  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "DC", "FL", "GA", "HI", "ID", "IL", "IN", "IA", "KS",
+  "KY", "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ", "NM", "NY", "NC",
+  "ND", "OH", "OK", "OR", "PA", "RI", "SC", "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY",
+  "PR", "GU", "VI",
+] as const
+
+const mailingAddressSchema = z.object({
+  street: z
+    .string()
+    .trim()
+    .min(3, "Street address must be at least 3 characters")
+    .max(120, "Street address must be less than 120 characters"),
+  unit: z.string().trim().max(20, "Unit must be less than 20 characters"),
+  city: z.string().trim().min(2, "City is required").max(60, "City must be less than 60 characters"),
+  state: z.string().refine((val) => (US_STATE_CODES as readonly string[]).includes(val), "Select a state"),
+  zip: z.string().trim().regex(/^\d{5}(-\d{4})?$/, "Enter a 5-digit ZIP code"),
+})
+
+// Accepts any punctuation; stored as (XXX) XXX-XXXX. With `optional`, a blank
+// value is accepted in the refinement itself rather than through a union, so a
+// bad number gets the real message and later refinements still run.
+function phoneField({ optional }: { optional: boolean }) {
+  return z
+    .string()
+    .superRefine((val, ctx) => {
+      if (optional && val.trim() === "") return
+      const result = sanitizeUSPhone(val)
+      if (!result.ok) ctx.addIssue({ code: "custom", message: result.message })
+    })
+    .transform((val) => (optional && val.trim() === "" ? "" : formatUSPhone(keepDigits(val))))
+}
+
+function emailField({ optional }: { optional: boolean }) {
+  return z
+    .string()
+    .trim()
+    .refine((val) => (optional && val === "") || z.email().safeParse(val).success, "Enter a valid email address")
+}
+
+export const phoneSchema = phoneField({ optional: false })
+export const optionalPhoneSchema = phoneField({ optional: true })
+
+export const emailSchema = emailField({ optional: false })
+export const optionalEmailSchema = emailField({ optional: true })
+
+// The applicant's phone and email are on their party entry (lib/parties.ts)
+export const contactSchema = z.object({
+  preferredMethod: z
+    .string()
+    .refine((val) => (CONTACT_METHODS as readonly string[]).includes(val), "Select how we should contact you"),
+  mailingAddress: mailingAddressSchema,
+})
+
+export type Contact = z.infer<typeof contactSchema>
+
+export const contactDraftSchema = z.object({
+  preferredMethod: z.string(),
+  mailingAddress: z.object({
+    street: z.string(),
+    unit: z.string(),
+    city: z.string(),
+    state: z.string(),
+    zip: z.string(),
+  }),
+})
+
+export const EMPTY_CONTACT: Contact = {
+  preferredMethod: "",
+  mailingAddress: { street: "", unit: "", city: "", state: "", zip: "" },
+}
+
+// Reformats a phone number once it's complete, leaving partial input alone
+export function normalizePhoneInput(input: string): string {
+  const result = sanitizeUSPhone(input)
+  return result.ok ? formatUSPhone(result.digits) : input
+}
+
+// "by email at jo@example.com", for confirmation messages
+export function describePreferredContact(
+  contact: z.infer<typeof contactDraftSchema>,
+  applicant: { phone: string; email: string },
+): string {
+  switch (contact.preferredMethod) {
+    case "Email":
+      return `by email at ${applicant.email}`
+    case "Phone":
+      return `by phone at ${applicant.phone}`
+    case "Mail":
+      return `by mail at ${contact.mailingAddress.street}, ${contact.mailingAddress.city}`
+    default:
+      return "via the contact information provided"
+  }
+}
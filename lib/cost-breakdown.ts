@@ -0,0 +1,72 @@
+import { z } from "zod"
+import { formatDollars, parseNumberSafe } from "./utils"
+
+// Itemized valuation behind estimatedCost. Reviewers check permit valuations
+// against these line items, so their total has to match the estimate to the
+// cent. Amounts are strings like the rest of the form and summed in cents.
+
+export const COST_CATEGORIES = {
+  labor: "Labor",
+  materials: "Materials",
+  equipment: "Equipment",
+  subcontracts: "Subcontracts",
+} as const
+
+export type CostCategory = keyof typeof COST_CATEGORIES
+
+export const COST_CATEGORY_KEYS = Object.keys(COST_CATEGORIES) as CostCategory[]
+
+const costLineItemSchema = z.object({
+  category: z
+    .string()
+    .refine((val) => (COST_CATEGORY_KEYS as string[]).includes(val), "Select a cost category"),
+  description: z.string().max(200, "Description must be less than 200 characters"),
+  amount: z.string().refine((val) => {
+    const n = parseNumberSafe(val)
+    return n !== null && n >= 0
+  }, "Enter an amount of 0 or more"),
+})
+
+export type CostLineItem = z.infer<typeof costLineItemSchema>
+
+export const costBreakdownSchema = z.array(costLineItemSchema).min(1, "Add at least one cost line item")
+
+export type CostBreakdown = z.infer<typeof costBreakdownSchema>
+
+export const costBreakdownDraftSchema = z.array(
+  z.object({ category: z.string(), description: z.string(), amount: z.string() }),
+)
+
+export const EMPTY_COST_BREAKDOWN: CostBreakdown = []
+
+function toCents(value: unknown): number {
+  return Math.round((parseNumberSafe(value) ?? 0) * 100)
+}
+
+export function costBreakdownTotal(items: Pick<CostLineItem, "amount">[]): number {
+  return items.reduce((cents, item) => cents + toCents(item.amount), 0) / 100
+}
+
+// Totals by category, in COST_CATEGORIES order, leaving out empty ones
+export function costBreakdownByCategory(items: CostLineItem[]): { category: CostCategory; total: number }[] {
+  return COST_CATEGORY_KEYS.map((category) => ({
+    category,
+    total: costBreakdownTotal(items.filter((item) => item.category === category)),
+  })).filter(({ total }) => total > 0)
+}
+
+export function validateCostBreakdown(
+  values: { estimatedCost?: unknown; costBreakdown?: Pick<CostLineItem, "amount">[] },
+  ctx: z.RefinementCtx,
+) {
+  const items = values.costBreakdown ?? []
+  const estimate = parseNumberSafe(values.estimatedCost)
+  if (items.length === 0 || estimate === null) return
+  if (toCents(costBreakdownTotal(items)) !== toCents(estimate)) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Line items total ${formatDollars(costBreakdownTotal(items))}, but the estimated cost is ${formatDollars(estimate)}`,
+      path: ["costBreakdown"],
+    })
+  }
+}
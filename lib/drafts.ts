@@ -0,0 +1,73 @@
+import { applicationTitle, EMPTY_BUILDING_PERMIT, type BuildingPermitForm, type Draft } from "./application"
+import { EMPTY_SIGNATURE } from "./signature"
+import type { DraftRepository } from "./storage/types"
+import { FIRST_STEP_ID } from "./wizard"
+
+export function createDraft(values: BuildingPermitForm = EMPTY_BUILDING_PERMIT): Draft {
+  const now = new Date().toISOString()
+  return { id: crypto.randomUUID(), title: "", step: FIRST_STEP_ID, createdAt: now, updatedAt: now, values }
+}
+
+const DRAFT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Drafts are identified by a random UUID, unlike application numbers, which can be guessed
+export function isDraftId(value: string): boolean {
+  return DRAFT_ID_PATTERN.test(value)
+}
+
+// True once anything has been typed, including in nested groups like the address
+export function hasDraftContent(values: unknown): boolean {
+  if (typeof values === "string") return values.trim() !== ""
+  if (values && typeof values === "object") return Object.values(values).some(hasDraftContent)
+  return false
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Whether two saves of a draft hold the same name and answers; the step they were on doesn't count
+export function sameDraftContent(a: Pick<Draft, "title" | "values">, b: Pick<Draft, "title" | "values">): boolean {
+  return a.title === b.title && sameValue(a.values, b.values)
+}
+
+// Three-way merge of two edits made from the same starting point: whatever
+// only one side changed is kept, and where both changed the same field,
+// `ours` wins. Lists such as cost line items are merged as a whole.
+function mergeValue(base: unknown, ours: unknown, theirs: unknown): unknown {
+  if (sameValue(ours, base)) return theirs
+  if (sameValue(theirs, base) || sameValue(ours, theirs)) return ours
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const from = isPlainObject(base) ? base : {}
+    const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)])
+    return Object.fromEntries([...keys].map((key) => [key, mergeValue(from[key], ours[key], theirs[key])]))
+  }
+  return ours
+}
+
+export function mergeDraftValues(
+  base: BuildingPermitForm,
+  ours: BuildingPermitForm,
+  theirs: BuildingPermitForm,
+): BuildingPermitForm {
+  return mergeValue(base, ours, theirs) as BuildingPermitForm
+}
+
+export function draftTitle(draft: Draft): string {
+  if (draft.title.trim()) return draft.title.trim()
+  const { projectType, propertyAddress, parties } = draft.values
+  if (projectType && propertyAddress.street) return applicationTitle(draft.values)
+  return projectType || propertyAddress.street || parties.applicant.name || "Untitled draft"
+}
+
+export async function duplicateDraft(drafts: DraftRepository, id: string): Promise<Draft | null> {
+  const source = await drafts.get(id)
+  if (source.status !== "ok") return null
+  // A signature applies to the draft it was given on, so the copy starts unsigned
+  const copy = createDraft({ ...source.data.values, signature: EMPTY_SIGNATURE })
+  return drafts.save({ ...copy, title: `Copy of ${draftTitle(source.data)}`.slice(0, 100), step: source.data.step })
+}
@@ -0,0 +1,169 @@
+import { z } from "zod"
+import type { BuildingPermitForm } from "./application"
+import schedule from "./data/fee-schedule.json"
+import { formatDollars, loadValidatedJson, parseNumberSafe } from "./utils"
+
+// Permit fee estimates from the fee schedule in lib/data/fee-schedule.json.
+// Each project type lists its fee items: flat fees, valuation fees charged per
+// $1,000 of estimated cost (or fraction thereof) in marginal tiers, and area
+// fees per square foot. The permit fee is raised to the project type's
+// minimum if needed, then the state UCC training surcharge is added on top.
+
+const feeItemSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("flat"), label: z.string().min(1), amount: z.number().nonnegative() }),
+  z.object({
+    kind: z.literal("valuation"),
+    label: z.string().min(1),
+    // Ascending; the last tier's `upTo` is null
+    tiers: z.array(z.object({ upTo: z.number().positive().nullable(), perThousand: z.number().nonnegative() })).min(1),
+  }),
+  z.object({ kind: z.literal("area"), label: z.string().min(1), perSquareFoot: z.number().nonnegative() }),
+])
+
+type FeeItem = z.infer<typeof feeItemSchema>
+
+const projectFeesSchema = z.object({
+  items: z.array(feeItemSchema).min(1),
+  minimum: z.number().nonnegative(),
+})
+
+const feeScheduleSchema = z.object({
+  source: z.string(),
+  updatedAt: z.iso.date(),
+  stateSurcharge: z.object({ label: z.string().min(1), amount: z.number().nonnegative() }),
+  // Used for project types with no entry of their own
+  default: projectFeesSchema,
+  projectTypes: z.record(z.string(), projectFeesSchema),
+})
+
+export type FeeSchedule = z.infer<typeof feeScheduleSchema>
+
+let loaded: FeeSchedule | null = null
+
+export function loadFeeSchedule(): FeeSchedule {
+  loaded ??= loadValidatedJson(feeScheduleSchema, schedule, "lib/data/fee-schedule.json")
+  return loaded
+}
+
+export const feeLineSchema = z.object({
+  label: z.string().min(1),
+  amount: z.number().nonnegative(),
+  // How the amount was worked out, e.g. "$25,000 at $8.00 per $1,000"
+  detail: z.string().optional(),
+})
+
+export type FeeLine = z.infer<typeof feeLineSchema>
+
+export const feeEstimateSchema = z.object({
+  lines: z.array(feeLineSchema).min(1),
+  total: z.number().nonnegative(),
+  // Fee schedule the estimate was calculated from
+  scheduleUpdatedAt: z.iso.date(),
+  // Fees that couldn't be calculated from what was entered
+  notes: z.array(z.string()),
+})
+
+export type FeeEstimate = z.infer<typeof feeEstimateSchema>
+
+export interface FeeInput {
+  projectType: string
+  estimatedCost: string
+  squareFootage: string
+}
+
+// Whether the project type's fees include a per-square-foot charge
+export function chargesByArea(projectType: string, feeSchedule = loadFeeSchedule()): boolean {
+  const fees = feeSchedule.projectTypes[projectType] ?? feeSchedule.default
+  return fees.items.some((item) => item.kind === "area")
+}
+
+// Project types charged by area must give the area to charge for. Decks answer
+// with the deck questions, which already require it.
+export function validateSquareFootage(
+  values: { projectType?: unknown; squareFootage?: unknown },
+  ctx: z.RefinementCtx,
+) {
+  const projectType = String(values.projectType ?? "")
+  if (projectType === "Deck/Patio Construction" || !chargesByArea(projectType)) return
+  if (String(values.squareFootage ?? "").trim() === "") {
+    ctx.addIssue({
+      code: "custom",
+      message: "Enter the project area; it's needed to calculate the permit fee",
+      path: ["squareFootage"],
+    })
+  }
+}
+
+// Decks give their area with the deck questions instead of the general size field
+export function feeInputFor(values: Pick<BuildingPermitForm, "projectType" | "estimatedCost" | "squareFootage" | "projectDetails">): FeeInput {
+  const deckArea = values.projectType === "Deck/Patio Construction" ? values.projectDetails.deck?.squareFootage : undefined
+  return { projectType: values.projectType, estimatedCost: values.estimatedCost, squareFootage: deckArea ?? values.squareFootage }
+}
+
+function toCents(dollars: number): number {
+  return Math.round(dollars * 100)
+}
+
+// Charges each $1,000 (or part of one) at the rate of the tier it falls in
+function valuationFee(valuation: number, item: Extract<FeeItem, { kind: "valuation" }>) {
+  let cents = 0
+  let lower = 0
+  const parts: string[] = []
+  for (const tier of item.tiers) {
+    const upper = tier.upTo === null ? valuation : Math.min(valuation, tier.upTo)
+    if (upper <= lower) break
+    const thousands = Math.ceil((upper - lower) / 1000)
+    cents += thousands * toCents(tier.perThousand)
+    parts.push(`${formatDollars(upper - lower)} at ${formatDollars(tier.perThousand)} per $1,000`)
+    lower = upper
+  }
+  return { cents, detail: parts.join(" + ") }
+}
+
+export function calculateFees(input: FeeInput, feeSchedule = loadFeeSchedule()): FeeEstimate {
+  const fees = feeSchedule.projectTypes[input.projectType] ?? feeSchedule.default
+  const valuation = parseNumberSafe(input.estimatedCost)
+  const area = parseNumberSafe(input.squareFootage)
+  const lines: { label: string; cents: number; detail?: string }[] = []
+  const notes: string[] = []
+
+  for (const item of fees.items) {
+    if (item.kind === "flat") {
+      lines.push({ label: item.label, cents: toCents(item.amount) })
+    } else if (item.kind === "valuation") {
+      if (valuation === null || valuation <= 0) {
+        notes.push(`Enter the estimated cost to include the ${item.label.toLowerCase()} fee`)
+        continue
+      }
+      const { cents, detail } = valuationFee(valuation, item)
+      lines.push({ label: item.label, cents, detail })
+    } else {
+      if (area === null || area <= 0) {
+        notes.push(`Enter the project area to include the ${item.label.toLowerCase()} fee`)
+        continue
+      }
+      lines.push({
+        label: item.label,
+        cents: Math.round(area * toCents(item.perSquareFoot)),
+        detail: `${area.toLocaleString("en-US")} sq ft at ${formatDollars(item.perSquareFoot)} per sq ft`,
+      })
+    }
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.cents, 0)
+  if (subtotal < toCents(fees.minimum)) {
+    lines.push({
+      label: "Minimum permit fee adjustment",
+      cents: toCents(fees.minimum) - subtotal,
+      detail: `Minimum permit fee is ${formatDollars(fees.minimum)}`,
+    })
+  }
+  lines.push({ label: feeSchedule.stateSurcharge.label, cents: toCents(feeSchedule.stateSurcharge.amount) })
+
+  return {
+    lines: lines.map(({ label, cents, detail }) => ({ label, amount: cents / 100, ...(detail ? { detail } : {}) })),
+    total: lines.reduce((sum, line) => sum + line.cents, 0) / 100,
+    scheduleUpdatedAt: feeSchedule.updatedAt,
+    notes,
+  }
+}
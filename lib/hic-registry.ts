@@ -0,0 +1,54 @@
+"use server"
+
+import { z } from "zod"
+import registry from "./data/hic-registry.json"
+import {
+  HIC_NUMBER_PATTERN,
+  HIC_STATUSES,
+  normalizeHicNumber,
+  REGISTRY_UNAVAILABLE,
+  type HicLookup,
+  type HicRegistration,
+} from "./hic"
+import { loadValidatedJson } from "./utils"
+
+// Looks registrations up in the locally maintained lib/data/hic-registry.json.
+// Callers only see this server action, so a live registry can replace the
+// file without touching them.
+
+const registrySchema = z.object({
+  source: z.string(),
+  updatedAt: z.iso.date(),
+  contractors: z.array(
+    z.object({
+      registration: z.string().regex(HIC_NUMBER_PATTERN),
+      name: z.string().min(1),
+      expiresOn: z.iso.date(),
+      status: z.enum(HIC_STATUSES),
+    }),
+  ),
+})
+
+let byRegistration: Map<string, HicRegistration> | null = null
+
+function loadRegistry(): Map<string, HicRegistration> {
+  if (!byRegistration) {
+    const { contractors } = loadValidatedJson(registrySchema, registry, "lib/data/hic-registry.json")
+    byRegistration = new Map(contractors.map((entry) => [entry.registration, entry]))
+  }
+  return byRegistration
+}
+
+export async function lookupHicRegistration(number: string): Promise<HicLookup> {
+  const registration = normalizeHicNumber(number)
+  if (!HIC_NUMBER_PATTERN.test(registration)) {
+    return { found: false, error: "PA Home Improvement Contractor numbers look like PA012345" }
+  }
+  try {
+    const entry = loadRegistry().get(registration)
+    return entry ? { found: true, registration: entry } : { found: false }
+  } catch (error) {
+    console.error("Contractor registry lookup failed:", error)
+    return { found: false, error: REGISTRY_UNAVAILABLE }
+  }
+}
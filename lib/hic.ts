@@ -0,0 +1,66 @@
+import { z } from "zod"
+
+// Pennsylvania Home Improvement Contractor (HIC) registration numbers: "PA"
+// followed by six digits. Registrations are looked up through the
+// lookupHicRegistration server action; an unknown, expired or inactive
+// registration is a warning for the applicant, not a validation error, since
+// the registry copy may lag behind the Attorney General's records.
+
+export const HIC_NUMBER_PATTERN = /^PA\d{6}$/
+
+export const HIC_STATUSES = ["active", "expired", "suspended", "revoked"] as const
+
+export type HicStatus = (typeof HIC_STATUSES)[number]
+
+export interface HicRegistration {
+  registration: string
+  name: string
+  expiresOn: string
+  status: HicStatus
+}
+
+export type HicLookup = { found: true; registration: HicRegistration } | { found: false; error?: string }
+
+export const REGISTRY_UNAVAILABLE = "The contractor registry is unavailable. Please try again later."
+
+// Uppercases and drops spaces and dashes so "pa-012 345" becomes "PA012345"
+export function normalizeHicNumber(input: string): string {
+  return input.toUpperCase().replace(/[\s-]+/g, "")
+}
+
+// Optional on the form; blank when the owner does the work
+export const hicNumberSchema = z
+  .string()
+  .refine(
+    (val) => val.trim() === "" || HIC_NUMBER_PATTERN.test(normalizeHicNumber(val)),
+    "PA Home Improvement Contractor numbers look like PA012345 (PA and six digits)",
+  )
+  .transform(normalizeHicNumber)
+  .optional()
+
+export type HicCheck = { level: "ok" | "warning"; message: string }
+
+// Turns a registry lookup into the message shown next to the field
+export function describeHicLookup(number: string, lookup: HicLookup, today = new Date()): HicCheck {
+  if (!lookup.found) {
+    return {
+      level: "warning",
+      message:
+        lookup.error ??
+        `${number} isn't in the contractor registry. Check the number with your contractor before submitting.`,
+    }
+  }
+  const { name, expiresOn, status } = lookup.registration
+  const expires = new Date(`${expiresOn}T23:59:59`)
+  if (status === "expired" || expires < today) {
+    return { level: "warning", message: `${name}'s registration expired on ${formatDay(expires)}.` }
+  }
+  if (status !== "active") {
+    return { level: "warning", message: `${name}'s registration is ${status}.` }
+  }
+  return { level: "ok", message: `Registered to ${name} until ${formatDay(expires)}.` }
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })
+}
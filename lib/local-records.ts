@@ -0,0 +1,43 @@
+import type { RecordLoad } from "./storage/types"
+import { parseRecord, stampRecord, type RecordType } from "./versioned-record"
+
+const QUARANTINE_PREFIX = "quarantine_"
+
+export interface QuarantinedRecord {
+  key: string
+  raw: string
+  reason: string
+  quarantinedAt: string
+}
+
+// Moves an unreadable record out of the way so it stops failing on every load
+// but can still be recovered by hand.
+function quarantine(key: string, raw: string, reason: string) {
+  const entry: QuarantinedRecord = { key, raw, reason, quarantinedAt: new Date().toISOString() }
+  localStorage.setItem(`${QUARANTINE_PREFIX}${key}_${Date.now()}`, JSON.stringify(entry))
+  localStorage.removeItem(key)
+  console.warn(`Quarantined unreadable ${key}: ${reason}`)
+}
+
+export function loadLocalRecord<T>(key: string, type: RecordType<T>): RecordLoad<T> {
+  const raw = localStorage.getItem(key)
+  if (raw === null) return { status: "missing" }
+
+  const result = parseRecord(type, raw)
+  if (!result.ok) {
+    quarantine(key, raw, result.reason)
+    return { status: "quarantined", reason: result.reason }
+  }
+  if (result.migrated) {
+    saveLocalRecord(key, type, result.data)
+  }
+  return { status: "ok", data: result.data }
+}
+
+export function saveLocalRecord<T>(key: string, type: RecordType<T>, data: T) {
+  localStorage.setItem(key, JSON.stringify(stampRecord(type, data)))
+}
+
+export function removeLocalRecord(key: string) {
+  localStorage.removeItem(key)
+}
@@ -0,0 +1,37 @@
+import { z } from "zod"
+import dataset from "./data/pa-zip-codes.json"
+import { loadValidatedJson } from "./utils"
+
+// Bundled Pennsylvania ZIP → municipality/county table covering every PA ZIP,
+// so ZIP checks keep working when the lookup service can't be reached. Most
+// ZIPs list their post office name; ZIPs known to span several municipalities
+// (and occasionally counties) list every place and the user picks the one the
+// property is in.
+
+export interface PaZipPlace {
+  municipality: string
+  county: string
+}
+
+const zipDatasetSchema = z.object({
+  source: z.string(),
+  updatedAt: z.iso.date(),
+  zips: z.record(
+    z.string().regex(/^\d{5}$/),
+    z.array(z.object({ municipality: z.string().min(1), county: z.string().min(1) })).min(1),
+  ),
+})
+
+export type PaZipDataset = z.infer<typeof zipDatasetSchema>
+
+let loaded: PaZipDataset | null = null
+
+export function loadPaZipDataset(): PaZipDataset {
+  loaded ??= loadValidatedJson(zipDatasetSchema, dataset, "lib/data/pa-zip-codes.json")
+  return loaded
+}
+
+// Places for a ZIP (ZIP+4 accepted), or an empty list if it isn't in the table
+export function lookupPaZip(zip: string): PaZipPlace[] {
+  return loadPaZipDataset().zips[zip.trim().slice(0, 5)] ?? []
+}
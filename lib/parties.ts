@@ -0,0 +1,113 @@
+import { z } from "zod"
+import { emailSchema, optionalEmailSchema, optionalPhoneSchema, phoneSchema } from "./contact"
+
+// Everyone named on a permit. The applicant fills in the form and may be the
+// property owner, the owner's agent or the contractor. When they aren't the
+// owner, the owner's details are required along with the applicant's
+// attestation that the owner authorized the application. The contractor is
+// optional since owners can do their own work.
+
+export const PARTY_ROLES = ["applicant", "owner", "contractor"] as const
+
+export type PartyRole = (typeof PARTY_ROLES)[number]
+
+export const PARTY_ROLE_LABELS: Record<PartyRole, string> = {
+  applicant: "Applicant",
+  owner: "Property Owner",
+  contractor: "Contractor",
+}
+
+export const APPLICANT_RELATIONSHIPS = ["Property owner", "Owner's authorized agent", "Contractor"] as const
+
+const OWNER_RELATIONSHIP: (typeof APPLICANT_RELATIONSHIPS)[number] = "Property owner"
+
+const partySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Name must be at least 2 characters")
+    .max(100, "Name must be less than 100 characters"),
+  company: z.string().trim().max(100, "Company must be less than 100 characters"),
+  phone: phoneSchema,
+  email: emailSchema,
+})
+
+export type Party = z.infer<typeof partySchema>
+
+const partyDraftSchema = z.object({ name: z.string(), company: z.string(), phone: z.string(), email: z.string() })
+
+const contractorPartySchema = z
+  .object({
+    name: z.string().trim().max(100, "Name must be less than 100 characters"),
+    company: z.string().trim().max(100, "Company must be less than 100 characters"),
+    phone: optionalPhoneSchema,
+    email: optionalEmailSchema,
+  })
+  .superRefine((party, ctx) => {
+    if (!party.name && (party.company || party.phone || party.email)) {
+      ctx.addIssue({ code: "custom", message: "Enter the contractor's name", path: ["name"] })
+    }
+  })
+
+export const partiesSchema = z
+  .object({
+    applicant: partySchema.extend({
+      relationship: z
+        .string()
+        .refine(
+          (val) => (APPLICANT_RELATIONSHIPS as readonly string[]).includes(val),
+          "Select your relationship to the property",
+        ),
+    }),
+    // Checked below, only when the applicant isn't the owner
+    owner: partyDraftSchema,
+    ownerAuthorized: z.boolean(),
+    contractor: contractorPartySchema,
+  })
+  .superRefine((parties, ctx) => {
+    if (!applicantIsAgent(parties)) return
+    const owner = partySchema.safeParse(parties.owner)
+    for (const issue of owner.error?.issues ?? []) {
+      ctx.addIssue({ code: "custom", message: issue.message, path: ["owner", ...issue.path] })
+    }
+    if (!parties.ownerAuthorized) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Confirm that the owner has authorized this application",
+        path: ["ownerAuthorized"],
+      })
+    }
+  })
+
+export type Parties = z.infer<typeof partiesSchema>
+
+export const partiesDraftSchema = z.object({
+  applicant: partyDraftSchema.extend({ relationship: z.string() }),
+  owner: partyDraftSchema,
+  ownerAuthorized: z.boolean(),
+  contractor: partyDraftSchema,
+})
+
+const EMPTY_PARTY = { name: "", company: "", phone: "", email: "" }
+
+export const EMPTY_PARTIES: Parties = {
+  applicant: { ...EMPTY_PARTY, relationship: "" },
+  owner: EMPTY_PARTY,
+  ownerAuthorized: false,
+  contractor: EMPTY_PARTY,
+}
+
+// True once the applicant has said they're applying for someone else
+export function applicantIsAgent(parties: { applicant: { relationship: string } }): boolean {
+  return parties.applicant.relationship !== "" && parties.applicant.relationship !== OWNER_RELATIONSHIP
+}
+
+// Fills in the owner from the applicant when they're the same person, and
+// tidies the owner's phone the way the schema does for the other parties
+export function resolveParties(parties: Parties): Parties {
+  if (!applicantIsAgent(parties)) {
+    const { name, company, phone, email } = parties.applicant
+    return { ...parties, owner: { name, company, phone, email }, ownerAuthorized: false }
+  }
+  return { ...parties, owner: partySchema.parse(parties.owner) }
+}
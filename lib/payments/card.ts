@@ -0,0 +1,74 @@
+import { z } from "zod"
+import { keepDigits } from "../utils"
+
+// Card details as typed into the payment form. Only the brand and last four
+// digits are ever stored; the rest goes to the payment provider and no further.
+
+export const CARD_BRANDS = ["Visa", "Mastercard", "American Express", "Discover", "Card"] as const
+
+export type CardBrand = (typeof CARD_BRANDS)[number]
+
+export function cardBrand(number: string): CardBrand {
+  const digits = keepDigits(number)
+  if (/^4/.test(digits)) return "Visa"
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return "Mastercard"
+  if (/^3[47]/.test(digits)) return "American Express"
+  if (/^6(011|5)/.test(digits)) return "Discover"
+  return "Card"
+}
+
+export function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let n = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      n *= 2
+      if (n > 9) n -= 9
+    }
+    sum += n
+  }
+  return digits.length > 0 && sum % 10 === 0
+}
+
+// "MM/YY", valid through the end of that month
+function expiryIsCurrent(expiry: string, today = new Date()): boolean {
+  const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(expiry.trim())
+  if (!match) return false
+  const month = Number(match[1])
+  if (month < 1 || month > 12) return false
+  const endOfMonth = new Date(2000 + Number(match[2]), month, 0, 23, 59, 59)
+  return endOfMonth >= today
+}
+
+export const cardDetailsSchema = z.object({
+  name: z.string().trim().min(2, "Enter the name on the card"),
+  number: z
+    .string()
+    .refine((val) => {
+      const digits = keepDigits(val)
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits)
+    }, "Enter a valid card number")
+    .transform(keepDigits),
+  expiry: z.string().refine((val) => expiryIsCurrent(val), "Enter a current expiry date as MM/YY"),
+  cvc: z.string().regex(/^\d{3,4}$/, "Enter the 3 or 4 digit security code"),
+})
+
+export type CardDetails = z.input<typeof cardDetailsSchema>
+
+export const EMPTY_CARD_DETAILS: CardDetails = { name: "", number: "", expiry: "", cvc: "" }
+
+export const cardSummarySchema = z.object({
+  brand: z.enum(CARD_BRANDS),
+  last4: z.string().regex(/^\d{4}$/),
+})
+
+export type CardSummary = z.infer<typeof cardSummarySchema>
+
+export function summarizeCard(number: string): CardSummary {
+  const digits = keepDigits(number)
+  return { brand: cardBrand(digits), last4: digits.slice(-4) }
+}
+
+export function describeCard(card: CardSummary): string {
+  return `${card.brand} ending in ${card.last4}`
+}
@@ -0,0 +1,15 @@
+import { createSimulatedPaymentProvider } from "./simulated"
+import type { PaymentProvider } from "./types"
+
+export { PaymentError, type Charge, type PaymentProvider, type Refund } from "./types"
+
+// Kept on globalThis so every route handler (and dev-mode reloads) share one
+// simulated gateway and its charges
+const holder = globalThis as typeof globalThis & { permitPaymentProvider?: PaymentProvider }
+
+// The simulated gateway until a real one is configured. In server storage
+// mode this runs in the API routes; in local and memory modes, in the browser.
+export function getPaymentProvider(): PaymentProvider {
+  holder.permitPaymentProvider ??= createSimulatedPaymentProvider()
+  return holder.permitPaymentProvider
+}
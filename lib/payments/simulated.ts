@@ -0,0 +1,99 @@
+import { cardDetailsSchema, summarizeCard } from "./card"
+import { PaymentError, type Charge, type ChargeRequest, type PaymentProvider, type Refund, type RefundRequest } from "./types"
+
+// Local stand-in for a card gateway, for development and demos. Outcomes are
+// chosen by card number; any other valid card number succeeds. Nothing leaves
+// this process and state is lost on restart.
+export const SIMULATED_TEST_CARDS = {
+  succeeds: "4242 4242 4242 4242",
+  declined: "4000 0000 0000 0002",
+  insufficientFunds: "4000 0000 0000 9995",
+  // Stays pending for a few seconds, then succeeds
+  pending: "4000 0000 0000 3220",
+} as const
+
+const DECLINES: Record<string, string> = {
+  "4000000000000002": "Your card was declined.",
+  "4000000000009995": "Your card has insufficient funds.",
+}
+
+const PENDING_CARD = "4000000000003220"
+
+export function createSimulatedPaymentProvider({ pendingSettleMs = 5000 } = {}): PaymentProvider {
+  const charges = new Map<string, Charge>()
+  const refunds = new Map<string, Refund[]>()
+  // Idempotency key -> the request it was first used with and what it returned
+  const chargeKeys = new Map<string, { fingerprint: string; chargeId: string }>()
+  const refundKeys = new Map<string, { fingerprint: string; refund: Refund }>()
+
+  const settle = (charge: Charge): Charge => {
+    if (charge.status !== "pending" || Date.now() - Date.parse(charge.createdAt) < pendingSettleMs) return charge
+    const settled: Charge = { ...charge, status: "succeeded" }
+    charges.set(charge.id, settled)
+    return settled
+  }
+
+  return {
+    async charge(request: ChargeRequest) {
+      const card = cardDetailsSchema.safeParse(request.card)
+      if (!card.success) throw new PaymentError(card.error.issues[0].message)
+      if (!(request.amount > 0)) throw new PaymentError("Charge amount must be positive")
+
+      const fingerprint = `${request.amount}:${card.data.number}`
+      const previous = chargeKeys.get(request.idempotencyKey)
+      if (previous) {
+        if (previous.fingerprint !== fingerprint) {
+          throw new PaymentError("This idempotency key was already used for a different charge")
+        }
+        return settle(charges.get(previous.chargeId)!)
+      }
+
+      const declineReason = DECLINES[card.data.number]
+      const charge: Charge = {
+        id: `ch_${crypto.randomUUID().replace(/-/g, "")}`,
+        status: declineReason ? "declined" : card.data.number === PENDING_CARD ? "pending" : "succeeded",
+        amount: request.amount,
+        card: summarizeCard(card.data.number),
+        ...(declineReason ? { declineReason } : {}),
+        createdAt: new Date().toISOString(),
+      }
+      charges.set(charge.id, charge)
+      chargeKeys.set(request.idempotencyKey, { fingerprint, chargeId: charge.id })
+      return charge
+    },
+
+    async retrieve(chargeId) {
+      const charge = charges.get(chargeId)
+      return charge ? settle(charge) : null
+    },
+
+    async refund(chargeId, request: RefundRequest) {
+      const fingerprint = `${chargeId}:${request.amount}`
+      const previous = refundKeys.get(request.idempotencyKey)
+      if (previous) {
+        if (previous.fingerprint !== fingerprint) {
+          throw new PaymentError("This idempotency key was already used for a different refund")
+        }
+        return previous.refund
+      }
+
+      const charge = charges.get(chargeId)
+      if (!charge) throw new PaymentError(`Charge ${chargeId} not found`)
+      if (settle(charge).status !== "succeeded") throw new PaymentError("Only completed charges can be refunded")
+      const refunded = (refunds.get(chargeId) ?? []).reduce((sum, r) => sum + r.amount, 0)
+      if (!(request.amount > 0) || Math.round((refunded + request.amount) * 100) > Math.round(charge.amount * 100)) {
+        throw new PaymentError("Refund amount exceeds what is left on the charge")
+      }
+
+      const refund: Refund = {
+        id: `re_${crypto.randomUUID().replace(/-/g, "")}`,
+        chargeId,
+        amount: request.amount,
+        createdAt: new Date().toISOString(),
+      }
+      refunds.set(chargeId, [...(refunds.get(chargeId) ?? []), refund])
+      refundKeys.set(request.idempotencyKey, { fingerprint, refund })
+      return refund
+    },
+  }
+}
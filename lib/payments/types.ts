@@ -0,0 +1,53 @@
+import type { CardDetails, CardSummary } from "./card"
+
+// What the permit system needs from a card payment gateway. Amounts are in
+// dollars. Every call that moves money takes an idempotency key: repeating a
+// call with the same key returns the original result instead of charging or
+// refunding twice, so retries after a timeout or a double click are safe.
+
+export type ChargeStatus = "succeeded" | "pending" | "declined"
+
+export interface ChargeRequest {
+  amount: number
+  description: string
+  card: CardDetails
+  idempotencyKey: string
+}
+
+export interface Charge {
+  id: string
+  status: ChargeStatus
+  amount: number
+  card: CardSummary
+  // Present when the charge was declined
+  declineReason?: string
+  createdAt: string
+}
+
+export interface RefundRequest {
+  amount: number
+  idempotencyKey: string
+}
+
+export interface Refund {
+  id: string
+  chargeId: string
+  amount: number
+  createdAt: string
+}
+
+export interface PaymentProvider {
+  charge(request: ChargeRequest): Promise<Charge>
+  // Current state of a charge; pending charges settle over time
+  retrieve(chargeId: string): Promise<Charge | null>
+  refund(chargeId: string, request: RefundRequest): Promise<Refund>
+}
+
+// The gateway refused the request itself (bad input, reused key, unknown
+// charge), as opposed to the card being declined
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentError"
+  }
+}
@@ -0,0 +1,104 @@
+import { z } from "zod"
+import { parseNumberSafe } from "./utils"
+
+// Extra questions asked only for certain project types. The form always holds
+// every section (as strings, so inputs stay controlled), but only the section
+// matching the chosen project type is validated and kept on submission.
+
+export const POOL_BARRIER_TYPES = [
+  "Fence or wall at least 48 in. high",
+  "Above-ground pool wall at least 48 in. high",
+  "Power safety cover",
+  "Dwelling wall with door alarms",
+] as const
+
+export const DECK_ATTACHMENT_TYPES = ["Attached to house (ledger board)", "Freestanding"] as const
+
+export const SERVICE_AMPERAGES = ["60", "100", "150", "200", "320", "400"] as const
+
+export const PANEL_CHANGES = [
+  "No panel changes",
+  "Replace existing panel",
+  "Service upgrade",
+  "Add subpanel",
+] as const
+
+function positiveNumber(message: string) {
+  return z.string().refine((val) => {
+    const n = parseNumberSafe(val)
+    return n !== null && n > 0
+  }, message)
+}
+
+function oneOf(options: readonly string[], message: string) {
+  return z.string().refine((val) => options.includes(val), message)
+}
+
+const poolDetailsSchema = z.object({
+  maxDepthFeet: positiveNumber("Enter the maximum water depth in feet").refine(
+    (val) => Number(val) <= 20,
+    "Depth must be 20 feet or less",
+  ),
+  volumeGallons: positiveNumber("Enter the pool volume in gallons"),
+  barrierType: oneOf(POOL_BARRIER_TYPES, "Select the pool barrier"),
+})
+
+const deckDetailsSchema = z.object({
+  heightAboveGradeInches: positiveNumber("Enter the deck height above grade in inches"),
+  squareFootage: positiveNumber("Enter the deck area in square feet"),
+  attachment: oneOf(DECK_ATTACHMENT_TYPES, "Select how the deck is supported"),
+})
+
+const electricalDetailsSchema = z.object({
+  serviceAmperage: oneOf(SERVICE_AMPERAGES, "Select the service size"),
+  panelChange: oneOf(PANEL_CHANGES, "Select the panel work"),
+})
+
+export const PROJECT_DETAIL_SECTIONS = {
+  pool: { projectType: "Pool Installation", schema: poolDetailsSchema },
+  deck: { projectType: "Deck/Patio Construction", schema: deckDetailsSchema },
+  electrical: { projectType: "Electrical Work", schema: electricalDetailsSchema },
+} as const
+
+export type ProjectDetailSection = keyof typeof PROJECT_DETAIL_SECTIONS
+
+const SECTION_KEYS = Object.keys(PROJECT_DETAIL_SECTIONS) as ProjectDetailSection[]
+
+// Answers as typed; validateProjectDetails checks the section the project type needs
+export const projectDetailsSchema = z.object({
+  pool: z.object({ maxDepthFeet: z.string(), volumeGallons: z.string(), barrierType: z.string() }).optional(),
+  deck: z.object({ heightAboveGradeInches: z.string(), squareFootage: z.string(), attachment: z.string() }).optional(),
+  electrical: z.object({ serviceAmperage: z.string(), panelChange: z.string() }).optional(),
+})
+
+export type ProjectDetails = z.infer<typeof projectDetailsSchema>
+
+export const EMPTY_PROJECT_DETAILS: Required<ProjectDetails> = {
+  pool: { maxDepthFeet: "", volumeGallons: "", barrierType: "" },
+  deck: { heightAboveGradeInches: "", squareFootage: "", attachment: "" },
+  electrical: { serviceAmperage: "", panelChange: "" },
+}
+
+export function detailSectionFor(projectType: string): ProjectDetailSection | null {
+  return SECTION_KEYS.find((key) => PROJECT_DETAIL_SECTIONS[key].projectType === projectType) ?? null
+}
+
+// superRefine callback: validates the section for the chosen project type
+export function validateProjectDetails(
+  values: { projectType?: unknown; projectDetails?: ProjectDetails },
+  ctx: z.RefinementCtx,
+) {
+  const section = detailSectionFor(String(values.projectType ?? ""))
+  if (!section) return
+  const result = PROJECT_DETAIL_SECTIONS[section].schema.safeParse(values.projectDetails?.[section] ?? {})
+  if (result.success) return
+  for (const issue of result.error.issues) {
+    ctx.addIssue({ code: "custom", message: issue.message, path: ["projectDetails", section, ...issue.path] })
+  }
+}
+
+// Drops the sections that don't apply to the chosen project type
+export function pruneProjectDetails(projectType: string, details: ProjectDetails | undefined): ProjectDetails {
+  const section = detailSectionFor(projectType)
+  return section && details?.[section] ? { [section]: details[section] } : {}
+}
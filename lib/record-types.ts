@@ -0,0 +1,150 @@
+import { parseLegacyAddress } from "./address"
+import {
+  applicationSchema,
+  attachmentSchema,
+  draftSchema,
+  EMPTY_BUILDING_PERMIT,
+  type Application,
+  type Attachment,
+  type Draft,
+} from "./application"
+import { UNPAID } from "./application-payment"
+import { initialTransition } from "./application-status"
+import { EMPTY_CONTACT } from "./contact"
+import { EMPTY_COST_BREAKDOWN } from "./cost-breakdown"
+import { EMPTY_PARTIES } from "./parties"
+import { EMPTY_PROJECT_DETAILS } from "./project-details"
+import { EMPTY_SCHEDULE } from "./schedule"
+import { EMPTY_SIGNATURE } from "./signature"
+import { defineRecordType, recordFields, type Migration } from "./versioned-record"
+
+// Register a migration here (keyed by the version it upgrades from) and bump
+// `version` whenever the stored shape of a record changes.
+
+// Wizard step order when drafts stored the step as a 1-based number
+const NUMBERED_STEP_IDS = ["applicant", "project", "cost", "review"]
+
+function legacyAddress(text: unknown) {
+  return parseLegacyAddress(typeof text === "string" ? text : "")
+}
+
+// Moves `applicantName` and the contact phone and email onto the applicant party
+const splitParties: Migration = (data) => {
+  const { applicantName, contact, ...rest } = recordFields(data)
+  const { phone = "", email = "", ...remainingContact } = recordFields(contact)
+  return {
+    ...rest,
+    contact: remainingContact,
+    parties: {
+      ...EMPTY_PARTIES,
+      applicant: { ...EMPTY_PARTIES.applicant, name: applicantName ?? "", phone, email },
+    },
+  }
+}
+
+// Changes the form values a draft holds
+const updateValues =
+  (change: (values: Record<string, unknown>) => unknown): Migration =>
+  (data) => {
+    const draft = recordFields(data)
+    return { ...draft, values: change(recordFields(draft.values)) }
+  }
+
+export const draftRecordType = defineRecordType<Draft>({
+  kind: "Draft",
+  version: 11,
+  schema: draftSchema,
+  migrations: {
+    // v0: raw form.watch() dumps, possibly missing fields added since
+    0: (data) => ({ ...EMPTY_BUILDING_PERMIT, ...recordFields(data) }),
+    // v1: bare form values from the single global draft
+    1: (values) => {
+      const now = new Date().toISOString()
+      return { id: crypto.randomUUID(), title: "", step: 1, createdAt: now, updatedAt: now, values }
+    },
+    // v2: step stored as a number, which breaks whenever a step is inserted
+    2: (data) => {
+      const draft = recordFields(data)
+      return { ...draft, step: NUMBERED_STEP_IDS[Number(draft.step) - 1] ?? NUMBERED_STEP_IDS[0] }
+    },
+    // v3: no project-type-specific questions yet
+    3: updateValues((values) => ({ ...values, projectDetails: EMPTY_PROJECT_DETAILS })),
+    // v4: property address as one free-text string
+    4: updateValues((values) => ({ ...values, propertyAddress: legacyAddress(values.propertyAddress) })),
+    // v5: no contact details yet
+    5: updateValues((values) => ({ ...values, contact: EMPTY_CONTACT })),
+    // v6: a single applicant name, with their phone and email under contact
+    6: updateValues(splitParties),
+    // v7: no signature step yet
+    7: updateValues((values) => ({ ...values, signature: EMPTY_SIGNATURE })),
+    // v8: no project schedule yet
+    8: updateValues((values) => ({ ...values, schedule: EMPTY_SCHEDULE })),
+    // v9: a lump-sum estimated cost with no breakdown
+    9: updateValues((values) => ({ ...values, costBreakdown: EMPTY_COST_BREAKDOWN })),
+    // v10: no project area yet
+    10: updateValues((values) => ({ ...values, squareFootage: "" })),
+  },
+})
+
+const LEGACY_STATUSES: Record<string, Application["status"]> = {
+  Submitted: "submitted",
+  pending: "submitted",
+}
+
+export const applicationRecordType = defineRecordType<Application>({
+  kind: "Application",
+  version: 10,
+  schema: applicationSchema,
+  migrations: {
+    // v0: unversioned records with "Submitted" status and no history
+    0: (data) => {
+      const application = recordFields(data)
+      const { applicantName, submittedAt } = application
+      const status = LEGACY_STATUSES[String(application.status)] ?? application.status
+      return {
+        ...application,
+        status,
+        updatedAt: application.updatedAt ?? submittedAt,
+        statusHistory: application.statusHistory ?? [
+          initialTransition(
+            typeof applicantName === "string" && applicantName ? applicantName : "Applicant",
+            String(submittedAt),
+          ),
+        ],
+      }
+    },
+    // v1: submitted before project-type-specific questions existed
+    1: (data) => ({ ...recordFields(data), projectDetails: {} }),
+    // v2: property address as one free-text string
+    2: (data) => {
+      const application = recordFields(data)
+      return { ...application, propertyAddress: legacyAddress(application.propertyAddress) }
+    },
+    // v3: submitted before contact details were collected
+    3: (data) => ({ ...recordFields(data), contact: EMPTY_CONTACT }),
+    // v4: a single applicant name, with their phone and email under contact
+    4: splitParties,
+    // v5: submitted before applicants signed
+    5: (data) => ({ ...recordFields(data), signature: null }),
+    // v6: submitted before the project schedule was collected
+    6: (data) => ({ ...recordFields(data), schedule: EMPTY_SCHEDULE }),
+    // v7: submitted with a lump-sum estimated cost only
+    7: (data) => ({ ...recordFields(data), costBreakdown: EMPTY_COST_BREAKDOWN }),
+    // v8: submitted before project area and fee estimates
+    8: (data) => ({ ...recordFields(data), squareFootage: "", fees: null }),
+    // v9: submitted before fees could be paid online
+    9: (data) => ({ ...recordFields(data), ...UNPAID }),
+  },
+})
+
+export const attachmentRecordType = defineRecordType<Attachment>({
+  kind: "Attachment",
+  version: 2,
+  schema: attachmentSchema,
+  migrations: {
+    // Attachments have always been stored versioned
+    0: (data) => data,
+    // v1: no document category
+    1: (data) => ({ ...recordFields(data), category: "other" }),
+  },
+})
@@ -0,0 +1,59 @@
+import { z } from "zod"
+import { coerceDate, isWithinYears, toISODateStringLocal } from "./utils"
+
+// Proposed start and completion dates, stored as local "YYYY-MM-DD" strings so
+// a date picked in Pennsylvania doesn't shift a day when read back elsewhere.
+// A start date in the past is allowed but flagged as work already begun, which
+// the building department may treat differently (after-the-fact permits).
+
+// How far back a start date may be before it can't belong to this application
+const MAX_YEARS_ALREADY_BEGUN = 2
+
+export const scheduleSchema = z
+  .object({
+    proposedStart: z.iso.date("Select a proposed start date"),
+    proposedCompletion: z.iso.date("Select a proposed completion date"),
+  })
+  .superRefine((schedule, ctx) => {
+    const start = coerceDate(schedule.proposedStart)
+    const completion = coerceDate(schedule.proposedCompletion)
+    if (start && !isWithinYears(start, MAX_YEARS_ALREADY_BEGUN)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Start date can't be more than ${MAX_YEARS_ALREADY_BEGUN} years ago`,
+        path: ["proposedStart"],
+      })
+    }
+    if (start && completion && completion.getTime() <= start.getTime()) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Completion date must be after the start date",
+        path: ["proposedCompletion"],
+      })
+    }
+  })
+
+export type Schedule = z.infer<typeof scheduleSchema>
+
+export const scheduleDraftSchema = z.object({
+  proposedStart: z.string(),
+  proposedCompletion: z.string(),
+})
+
+export const EMPTY_SCHEDULE: Schedule = { proposedStart: "", proposedCompletion: "" }
+
+// True when the start date is before `asOf`: today in the wizard, or the
+// submission date for stored applications
+export function workAlreadyBegun(schedule: Pick<Schedule, "proposedStart">, asOf = new Date()): boolean {
+  const start = coerceDate(schedule.proposedStart)
+  return start !== null && toISODateStringLocal(start) < toISODateStringLocal(asOf)
+}
+
+export function toScheduleDate(date: Date | undefined): string {
+  return date ? toISODateStringLocal(date) : ""
+}
+
+export function formatScheduleDate(value: unknown): string {
+  const date = coerceDate(value)
+  return date ? date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }) : ""
+}
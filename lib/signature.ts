@@ -0,0 +1,157 @@
+import { z } from "zod"
+import type { Attachment } from "./application"
+
+// The applicant signs after reviewing the application, either by typing their
+// name or drawing a signature, and confirms each attestation. On submission
+// the signature becomes SignatureEvidence: who signed, when, what they
+// attested to and a SHA-256 hash of the application data and documents they
+// signed, so later changes to the stored record or its files can be detected.
+
+export const SIGNATURE_METHODS = ["typed", "drawn"] as const
+
+export const ATTESTATIONS = {
+  accurate: "The information in this application and its attachments is true and complete to the best of my knowledge",
+  codes:
+    "All work will comply with the Pennsylvania Uniform Construction Code and local ordinances, and the application will be reviewed by the appropriate authorities",
+  inspections: "I will schedule the required inspections and won't cover any work before it has been inspected",
+} as const
+
+export type AttestationId = keyof typeof ATTESTATIONS
+
+const ATTESTATION_IDS = Object.keys(ATTESTATIONS) as AttestationId[]
+
+const DRAWN_SIGNATURE_PREFIX = "data:image/png;base64,"
+
+// One flag per statement in ATTESTATIONS
+const attestationsSchema = (flag: z.ZodType<boolean, boolean>) =>
+  z.object(Object.fromEntries(ATTESTATION_IDS.map((id) => [id, flag])) as Record<AttestationId, typeof flag>)
+
+export const signatureSchema = z
+  .object({
+    signerName: z
+      .string()
+      .trim()
+      .min(2, "Enter your full legal name")
+      .max(100, "Name must be less than 100 characters"),
+    // Set by the signature pad along with the mark: the typed name, or the
+    // drawing as a PNG data URL
+    method: z.string(),
+    mark: z.string(),
+    attestations: attestationsSchema(z.boolean().refine((val) => val, "Please confirm this statement")),
+  })
+  // Problems are reported on `mark`, the field the signature pad is bound to
+  .superRefine((signature, ctx) => {
+    if (!(SIGNATURE_METHODS as readonly string[]).includes(signature.method) || !signature.mark) {
+      ctx.addIssue({ code: "custom", message: "Type or draw your signature", path: ["mark"] })
+      return
+    }
+    if (signature.method === "typed" && signature.mark.trim().toLowerCase() !== signature.signerName.toLowerCase()) {
+      ctx.addIssue({ code: "custom", message: "Type your name exactly as entered above", path: ["mark"] })
+    }
+    if (signature.method === "drawn" && !signature.mark.startsWith(DRAWN_SIGNATURE_PREFIX)) {
+      ctx.addIssue({ code: "custom", message: "Draw your signature in the box", path: ["mark"] })
+    }
+  })
+
+export type Signature = z.infer<typeof signatureSchema>
+
+export const signatureDraftSchema = z.object({
+  signerName: z.string(),
+  method: z.string(),
+  mark: z.string(),
+  attestations: attestationsSchema(z.boolean()),
+})
+
+export const EMPTY_SIGNATURE: Signature = {
+  signerName: "",
+  method: "",
+  mark: "",
+  attestations: Object.fromEntries(ATTESTATION_IDS.map((id) => [id, false])) as Record<AttestationId, boolean>,
+}
+
+// An attached document as signed: its content digest is the SHA-256 of its data URL
+export const signedDocumentSchema = z.object({
+  id: z.string().min(1),
+  category: z.string().min(1),
+  fileName: z.string().min(1),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+})
+
+export type SignedDocument = z.infer<typeof signedDocumentSchema>
+
+export const signatureEvidenceSchema = z.object({
+  signerName: z.string().min(1),
+  method: z.enum(SIGNATURE_METHODS),
+  mark: z.string().min(1),
+  // Full text of each statement, as worded when signed
+  attestations: z.array(z.string()).min(1),
+  signedAt: z.iso.datetime(),
+  dataHash: z.object({ algorithm: z.literal("SHA-256"), value: z.string().regex(/^[0-9a-f]{64}$/) }),
+  // Covered by dataHash. Missing on signatures made before documents were
+  // covered by the hash; those can't be checked and show as unverifiable.
+  documents: z.array(signedDocumentSchema).optional(),
+})
+
+export type SignatureEvidence = z.infer<typeof signatureEvidenceSchema>
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+// JSON with object keys sorted, so the same data always hashes the same way
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+// In ID order, so the same documents always hash the same way
+export async function signedDocuments(
+  attachments: Pick<Attachment, "id" | "category" | "fileName" | "dataUrl">[],
+): Promise<SignedDocument[]> {
+  const documents = await Promise.all(
+    attachments.map(async ({ id, category, fileName, dataUrl }) => ({ id, category, fileName, sha256: await sha256Hex(dataUrl) })),
+  )
+  return documents.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+}
+
+function hashSignedData(signedData: unknown, documents: SignedDocument[]): Promise<string> {
+  return sha256Hex(canonicalJson({ data: signedData, documents }))
+}
+
+export async function createSignatureEvidence(
+  signature: Signature,
+  signedData: unknown,
+  documents: SignedDocument[],
+  signedAt: string,
+): Promise<SignatureEvidence> {
+  return {
+    signerName: signature.signerName,
+    method: signature.method as SignatureEvidence["method"],
+    mark: signature.mark,
+    attestations: ATTESTATION_IDS.map((id) => ATTESTATIONS[id]),
+    signedAt,
+    dataHash: { algorithm: "SHA-256", value: await hashSignedData(signedData, documents) },
+    documents,
+  }
+}
+
+// "verified": the data and documents are exactly what was signed. "modified":
+// something has changed since. "unverifiable": signed before documents were
+// covered, when the signed data itself wasn't recorded precisely enough to check.
+export type SignatureCheck = "verified" | "modified" | "unverifiable"
+
+export async function verifySignatureEvidence(
+  evidence: SignatureEvidence,
+  signedData: unknown,
+  documents: SignedDocument[],
+): Promise<SignatureCheck> {
+  if (!evidence.documents) return "unverifiable"
+  return (await hashSignedData(signedData, documents)) === evidence.dataHash.value ? "verified" : "modified"
+}
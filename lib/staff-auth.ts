@@ -0,0 +1,33 @@
+import { createHash, timingSafeEqual } from "crypto"
+
+// Building department staff authenticate with a bearer token. Tokens are
+// configured in STAFF_TOKENS as comma-separated `token:Staff Name` pairs; the
+// name is what gets recorded against the changes they make.
+export interface StaffMember {
+  name: string
+}
+
+function configuredStaff(): { token: string; name: string }[] {
+  return (process.env.STAFF_TOKENS ?? "").split(",").flatMap((entry) => {
+    const separator = entry.indexOf(":")
+    const token = entry.slice(0, separator).trim()
+    const name = entry.slice(separator + 1).trim()
+    return separator > 0 && token && name ? [{ token, name }] : []
+  })
+}
+
+// Compares digests so the comparison takes the same time whatever the token's length
+function sameToken(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(a), digest(b))
+}
+
+// The staff member a request's `Authorization: Bearer` token belongs to, or
+// null when it has none or the token isn't configured
+export function authenticateStaff(request: Request): StaffMember | null {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("authorization") ?? "")
+  if (!match) return null
+  const token = match[1].trim()
+  const staff = configuredStaff().find((candidate) => sameToken(candidate.token, token))
+  return staff ? { name: staff.name } : null
+}
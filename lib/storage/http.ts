@@ -0,0 +1,161 @@
+import { applicationSchema, attachmentSchema } from "../application"
+import { isDraftId } from "../drafts"
+import {
+  createLocalDraftRepository,
+  listLocalApplications,
+  listLocalAttachments,
+  loadLocalApplication,
+  saveLocalApplication,
+  saveLocalAttachment,
+} from "./local"
+import type { PermitRepository } from "./types"
+
+// The server holds everyone's applications, so remember which ones belong to this browser
+const KNOWN_APPLICATIONS_KEY = "knownApplications"
+
+function knownApplicationIds(): string[] {
+  try {
+    const ids = JSON.parse(localStorage.getItem(KNOWN_APPLICATIONS_KEY) ?? "[]")
+    return Array.isArray(ids) ? ids.filter((id) => typeof id === "string") : []
+  } catch {
+    return []
+  }
+}
+
+function rememberApplication(applicationId: string) {
+  const ids = knownApplicationIds()
+  if (!ids.includes(applicationId)) {
+    localStorage.setItem(KNOWN_APPLICATIONS_KEY, JSON.stringify([...ids, applicationId]))
+  }
+}
+
+async function request(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(path, {
+    cache: "no-store",
+    ...init,
+    headers: { "content-type": "application/json", ...init?.headers },
+  })
+  if (!response.ok && response.status !== 404) {
+    const { error } = await response.json().catch(() => ({ error: undefined }))
+    throw new Error(error ?? `${init?.method ?? "GET"} ${path} failed with status ${response.status}`)
+  }
+  return response
+}
+
+// Talks to the /api route handlers; drafts stay in this browser. Staff tools
+// pass their token for status changes and refunds, which the server only
+// accepts from staff and records as them.
+export function createHttpRepository(baseUrl = "/api", options: { staffToken?: string } = {}): PermitRepository {
+  const staffHeaders: Record<string, string> = options.staffToken
+    ? { authorization: `Bearer ${options.staffToken}` }
+    : {}
+
+  // Falls back to this browser's copy of applications kept locally before they went to the server
+  const getApplication = async (applicationId: string) => {
+    const response = await request(`${baseUrl}/applications/${encodeURIComponent(applicationId)}`)
+    if (response.status === 404) return loadLocalApplication(applicationId)
+    return applicationSchema.parse(await response.json())
+  }
+
+  // POSTs to a sub-resource of the application and returns the updated record
+  const postApplicationAction = async (applicationId: string, action: string, body: unknown, headers?: Record<string, string>) => {
+    const response = await request(`${baseUrl}/applications/${encodeURIComponent(applicationId)}/${action}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    })
+    if (response.status === 404) throw new Error(`Application ${applicationId} not found`)
+    return applicationSchema.parse(await response.json())
+  }
+
+  return {
+    drafts: createLocalDraftRepository(),
+    applications: {
+      async submit(form, draftId) {
+        const response = await request(`${baseUrl}/applications`, {
+          method: "POST",
+          body: JSON.stringify({ form, draftId }),
+        })
+        const application = applicationSchema.parse(await response.json())
+        rememberApplication(application.applicationId)
+        return application
+      },
+      get: getApplication,
+      // Includes applications this browser kept locally before they went to the
+      // server, so they still show up and get exported
+      async list() {
+        const fromServer = (await Promise.all(knownApplicationIds().map(getApplication))).filter(
+          (application) => application !== null,
+        )
+        const onServer = new Set(fromServer.map((application) => application.applicationId))
+        const legacy = listLocalApplications().filter((application) => !onServer.has(application.applicationId))
+        return [...fromServer, ...legacy].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+      },
+      // Records can't be written to the server from a browser. An imported one
+      // the server doesn't have is kept in this browser instead, like those
+      // submitted before applications went to the server.
+      async restore(application) {
+        const response = await request(`${baseUrl}/applications/${encodeURIComponent(application.applicationId)}`)
+        if (response.status === 404) saveLocalApplication(application)
+        else rememberApplication(application.applicationId)
+      },
+    },
+    attachments: {
+      async list(ownerId) {
+        const response = await request(`${baseUrl}/attachments/${encodeURIComponent(ownerId)}`)
+        const fromServer = attachmentSchema.array().parse(await response.json())
+        // Documents of an application kept locally stayed local too. Browsers
+        // without IndexedDB have none of those.
+        const onServer = new Set(fromServer.map((attachment) => attachment.id))
+        const local = await listLocalAttachments(ownerId).catch(() => [])
+        return [...fromServer, ...local.filter((attachment) => !onServer.has(attachment.id))]
+      },
+      // Only drafts' documents go to the server; those of an application kept
+      // in this browser stay here with it
+      async save(attachment) {
+        if (!isDraftId(attachment.ownerId)) {
+          if (!loadLocalApplication(attachment.ownerId)) {
+            throw new Error(`Application ${attachment.ownerId} has been submitted; its documents can't be changed`)
+          }
+          await saveLocalAttachment(attachment)
+          return
+        }
+        await request(`${baseUrl}/attachments/${encodeURIComponent(attachment.ownerId)}`, {
+          method: "POST",
+          body: JSON.stringify(attachment),
+        })
+      },
+      async delete(ownerId, attachmentId) {
+        await request(`${baseUrl}/attachments/${encodeURIComponent(ownerId)}/${encodeURIComponent(attachmentId)}`, {
+          method: "DELETE",
+        })
+      },
+    },
+    events: {
+      async list(applicationId) {
+        return (await getApplication(applicationId))?.statusHistory ?? []
+      },
+      // The server records the signed-in staff member as the actor
+      async record(applicationId, to, { note }) {
+        const response = await request(`${baseUrl}/applications/${encodeURIComponent(applicationId)}/transitions`, {
+          method: "POST",
+          headers: staffHeaders,
+          body: JSON.stringify({ to, note }),
+        })
+        if (response.status === 404) throw new Error(`Application ${applicationId} not found`)
+        return applicationSchema.parse(await response.json())
+      },
+    },
+    payments: {
+      async pay(applicationId, body) {
+        return postApplicationAction(applicationId, "payments", body)
+      },
+      async refresh(applicationId) {
+        return postApplicationAction(applicationId, "payments/refresh", {})
+      },
+      async refund(applicationId, body) {
+        return postApplicationAction(applicationId, "refunds", body, staffHeaders)
+      },
+    },
+  }
+}
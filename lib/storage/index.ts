@@ -0,0 +1,34 @@
+import { createHttpRepository } from "./http"
+import { createLocalRepository } from "./local"
+import { createMemoryRepository } from "./memory"
+import type { PermitRepository } from "./types"
+
+export type { PermitRepository, RecordLoad } from "./types"
+
+export const STORAGE_MODES = ["server", "local", "memory"] as const
+
+export type StorageMode = (typeof STORAGE_MODES)[number]
+
+// Chosen at build time with NEXT_PUBLIC_STORAGE_MODE; defaults to the server API
+export function storageMode(): StorageMode {
+  const mode = process.env.NEXT_PUBLIC_STORAGE_MODE
+  return (STORAGE_MODES as readonly string[]).includes(mode ?? "") ? (mode as StorageMode) : "server"
+}
+
+let repository: PermitRepository | null = null
+
+export function getRepository(): PermitRepository {
+  if (!repository) {
+    switch (storageMode()) {
+      case "local":
+        repository = createLocalRepository()
+        break
+      case "memory":
+        repository = createMemoryRepository()
+        break
+      default:
+        repository = createHttpRepository()
+    }
+  }
+  return repository
+}
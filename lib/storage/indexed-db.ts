@@ -0,0 +1,80 @@
+import type { Attachment } from "../application"
+import { attachmentRecordType } from "../record-types"
+import { readRecord, stampRecord, type VersionedRecord } from "../versioned-record"
+import type { AttachmentRepository } from "./types"
+
+// Attachments kept in this browser's IndexedDB. localStorage can't hold them:
+// it allows about 5 MB for the whole site, and a file stored as a data URL is
+// a third bigger than the file itself.
+const DATABASE_NAME = "building-permits"
+const DATABASE_VERSION = 1
+const ATTACHMENTS_STORE = "attachments"
+
+interface StoredAttachment {
+  ownerId: string
+  id: string
+  record: VersionedRecord<Attachment>
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(ATTACHMENTS_STORE, { keyPath: ["ownerId", "id"] })
+      store.createIndex("ownerId", "ownerId")
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      database = null
+      reject(request.error)
+    }
+  })
+  return database
+}
+
+// Runs one request against the attachments store and resolves once its transaction commits
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const transaction = (await openDatabase()).transaction(ATTACHMENTS_STORE, mode)
+  const request = run(transaction.objectStore(ATTACHMENTS_STORE))
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? request.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Attachment storage was aborted"))
+  })
+}
+
+export function createIndexedDbAttachmentRepository(): AttachmentRepository {
+  const save = async (attachment: Attachment) => {
+    const stored: StoredAttachment = {
+      ownerId: attachment.ownerId,
+      id: attachment.id,
+      record: stampRecord(attachmentRecordType, attachment),
+    }
+    await withStore("readwrite", (store) => store.put(stored))
+  }
+
+  return {
+    async list(ownerId) {
+      const stored = await withStore<StoredAttachment[]>("readonly", (store) =>
+        store.index("ownerId").getAll(ownerId),
+      )
+      const found: Attachment[] = []
+      for (const { record } of stored) {
+        const result = readRecord(attachmentRecordType, record)
+        if (!result.ok) {
+          console.warn(`Skipping unreadable attachment for ${ownerId}: ${result.reason}`)
+          continue
+        }
+        if (result.migrated) await save(result.data)
+        found.push(result.data)
+      }
+      return found.sort((a, b) => a.addedAt.localeCompare(b.addedAt))
+    },
+    save,
+    async delete(ownerId, attachmentId) {
+      await withStore("readwrite", (store) => store.delete([ownerId, attachmentId]))
+    },
+  }
+}
@@ -0,0 +1,196 @@
+import { buildingPermitSchema, type Application, type Attachment, type Draft } from "../application"
+import { claimMunicipalityCode, type MunicipalityCodes } from "../application-number"
+import { payApplication, refreshPayment, refundApplication, type PaymentContext } from "../application-payment"
+import { submitApplication, transitionApplication } from "../application-status"
+import { loadLocalRecord, removeLocalRecord, saveLocalRecord } from "../local-records"
+import { getPaymentProvider } from "../payments"
+import { applicationRecordType, attachmentRecordType, draftRecordType } from "../record-types"
+import { createIndexedDbAttachmentRepository } from "./indexed-db"
+import type { AttachmentRepository, DraftRepository, PermitRepository } from "./types"
+
+const DRAFT_KEY_PREFIX = "draft_"
+const APPLICATION_KEY_PREFIX = "application_"
+const ATTACHMENT_KEY_PREFIX = "attachment_"
+const SEQUENCES_KEY = "applicationSequences"
+const MUNICIPALITY_CODES_KEY = "municipalityCodes"
+// Before drafts were named, the wizard kept a single draft under this key
+const LEGACY_DRAFT_KEY = "buildingPermitDraft"
+
+function keysWithPrefix(prefix: string): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(prefix)) keys.push(key)
+  }
+  return keys
+}
+
+async function nextSequence(scope: string): Promise<number> {
+  const counters: Record<string, number> = JSON.parse(localStorage.getItem(SEQUENCES_KEY) ?? "{}")
+  counters[scope] = (counters[scope] ?? 0) + 1
+  localStorage.setItem(SEQUENCES_KEY, JSON.stringify(counters))
+  return counters[scope]
+}
+
+async function municipalityCode(municipality: string): Promise<string> {
+  const codes: MunicipalityCodes = JSON.parse(localStorage.getItem(MUNICIPALITY_CODES_KEY) ?? "{}")
+  const code = claimMunicipalityCode(codes, municipality)
+  localStorage.setItem(MUNICIPALITY_CODES_KEY, JSON.stringify(codes))
+  return code
+}
+
+// Moves the old single draft into the named-drafts store the first time drafts are read
+function adoptLegacyDraft() {
+  const legacy = loadLocalRecord(LEGACY_DRAFT_KEY, draftRecordType)
+  if (legacy.status !== "ok") return
+  saveLocalRecord(`${DRAFT_KEY_PREFIX}${legacy.data.id}`, draftRecordType, legacy.data)
+  removeLocalRecord(LEGACY_DRAFT_KEY)
+}
+
+export function loadLocalApplication(applicationId: string): Application | null {
+  const result = loadLocalRecord(`${APPLICATION_KEY_PREFIX}${applicationId}`, applicationRecordType)
+  return result.status === "ok" ? result.data : null
+}
+
+export function saveLocalApplication(application: Application): Application {
+  saveLocalRecord(`${APPLICATION_KEY_PREFIX}${application.applicationId}`, applicationRecordType, application)
+  return application
+}
+
+// Applications kept in this browser's localStorage, newest first. In server
+// mode these are the ones submitted before applications went to the server.
+export function listLocalApplications(): Application[] {
+  const applications: Application[] = []
+  for (const key of keysWithPrefix(APPLICATION_KEY_PREFIX)) {
+    const application = loadLocalApplication(key.slice(APPLICATION_KEY_PREFIX.length))
+    if (application) applications.push(application)
+  }
+  return applications.sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+}
+
+const attachmentStore = createIndexedDbAttachmentRepository()
+
+// Attachments used to be kept in localStorage alongside everything else;
+// moves an owner's into IndexedDB the first time they're read
+async function adoptLegacyAttachments(ownerId: string) {
+  for (const key of keysWithPrefix(`${ATTACHMENT_KEY_PREFIX}${ownerId}_`)) {
+    const legacy = loadLocalRecord(key, attachmentRecordType)
+    if (legacy.status !== "ok") continue
+    await attachmentStore.save(legacy.data)
+    removeLocalRecord(key)
+  }
+}
+
+export async function listLocalAttachments(ownerId: string): Promise<Attachment[]> {
+  await adoptLegacyAttachments(ownerId)
+  return attachmentStore.list(ownerId)
+}
+
+export async function saveLocalAttachment(attachment: Attachment): Promise<void> {
+  await attachmentStore.save(attachment)
+}
+
+// Drafts always live in the browser, even when applications are submitted to a server
+export function createLocalDraftRepository(): DraftRepository {
+  return {
+    async list() {
+      adoptLegacyDraft()
+      const drafts: Draft[] = []
+      let quarantined = 0
+      for (const key of keysWithPrefix(DRAFT_KEY_PREFIX)) {
+        const result = loadLocalRecord(key, draftRecordType)
+        if (result.status === "ok") drafts.push(result.data)
+        else if (result.status === "quarantined") quarantined++
+      }
+      drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      return { drafts, quarantined }
+    },
+    async get(id) {
+      adoptLegacyDraft()
+      return loadLocalRecord(`${DRAFT_KEY_PREFIX}${id}`, draftRecordType)
+    },
+    async save(draft) {
+      const saved: Draft = { ...draft, updatedAt: new Date().toISOString() }
+      saveLocalRecord(`${DRAFT_KEY_PREFIX}${draft.id}`, draftRecordType, saved)
+      return saved
+    },
+    async restore(draft) {
+      saveLocalRecord(`${DRAFT_KEY_PREFIX}${draft.id}`, draftRecordType, draft)
+    },
+    async delete(id) {
+      removeLocalRecord(`${DRAFT_KEY_PREFIX}${id}`)
+    },
+  }
+}
+
+// Keeps everything in this browser's localStorage for offline use
+export function createLocalRepository(): PermitRepository {
+  const requireApplication = (applicationId: string) => {
+    const application = loadLocalApplication(applicationId)
+    if (!application) throw new Error(`Application ${applicationId} not found`)
+    return application
+  }
+
+  const payments: PaymentContext = { provider: getPaymentProvider(), nextSequence }
+
+  const attachments: AttachmentRepository = {
+    list: listLocalAttachments,
+    save: saveLocalAttachment,
+    async delete(ownerId, attachmentId) {
+      await adoptLegacyAttachments(ownerId)
+      await attachmentStore.delete(ownerId, attachmentId)
+    },
+  }
+
+  return {
+    drafts: createLocalDraftRepository(),
+    applications: {
+      async submit(form, draftId) {
+        return submitApplication(buildingPermitSchema.parse(form), draftId, {
+          attachments,
+          municipalityCode,
+          nextSequence,
+          async exists(id) {
+            return localStorage.getItem(`${APPLICATION_KEY_PREFIX}${id}`) !== null
+          },
+          async save(application) {
+            saveLocalApplication(application)
+          },
+        })
+      },
+      async get(applicationId) {
+        return loadLocalApplication(applicationId)
+      },
+      async list() {
+        return listLocalApplications()
+      },
+      async restore(application) {
+        saveLocalRecord(`${APPLICATION_KEY_PREFIX}${application.applicationId}`, applicationRecordType, application)
+      },
+    },
+    attachments,
+    events: {
+      async list(applicationId) {
+        return loadLocalApplication(applicationId)?.statusHistory ?? []
+      },
+      async record(applicationId, to, details) {
+        const application = loadLocalApplication(applicationId)
+        if (!application) throw new Error(`Application ${applicationId} not found`)
+        const updated = transitionApplication(application, to, details)
+        saveLocalRecord(`${APPLICATION_KEY_PREFIX}${applicationId}`, applicationRecordType, updated)
+        return updated
+      },
+    },
+    payments: {
+      async pay(applicationId, request) {
+        return saveLocalApplication(await payApplication(requireApplication(applicationId), request, payments))
+      },
+      async refresh(applicationId) {
+        return saveLocalApplication(await refreshPayment(requireApplication(applicationId), payments))
+      },
+      async refund(applicationId, request) {
+        return saveLocalApplication(await refundApplication(requireApplication(applicationId), request, payments))
+      },
+    },
+  }
+}
@@ -0,0 +1,121 @@
+import { buildingPermitSchema, type Application, type Attachment, type Draft } from "../application"
+import { claimMunicipalityCode, type MunicipalityCodes } from "../application-number"
+import { payApplication, refreshPayment, refundApplication, type PaymentContext } from "../application-payment"
+import { submitApplication, transitionApplication } from "../application-status"
+import { getPaymentProvider } from "../payments"
+import type { AttachmentRepository, PermitRepository } from "./types"
+
+// Keeps everything in this JS context, so nothing survives a reload. Useful
+// for previews and demos that shouldn't leave data behind.
+export function createMemoryRepository(): PermitRepository {
+  const drafts = new Map<string, Draft>()
+  const applications = new Map<string, Application>()
+  const attachments = new Map<string, Map<string, Attachment>>()
+  const sequences = new Map<string, number>()
+  const municipalityCodes: MunicipalityCodes = {}
+
+  const requireApplication = (applicationId: string) => {
+    const application = applications.get(applicationId)
+    if (!application) throw new Error(`Application ${applicationId} not found`)
+    return application
+  }
+
+  const nextSequence = async (scope: string) => {
+    const next = (sequences.get(scope) ?? 0) + 1
+    sequences.set(scope, next)
+    return next
+  }
+
+  const payments: PaymentContext = { provider: getPaymentProvider(), nextSequence }
+
+  const saveApplication = (application: Application) => {
+    applications.set(application.applicationId, application)
+    return application
+  }
+
+  const attachmentRepository: AttachmentRepository = {
+    async list(ownerId) {
+      return [...(attachments.get(ownerId)?.values() ?? [])].sort((a, b) => a.addedAt.localeCompare(b.addedAt))
+    },
+    async save(attachment) {
+      const owned = attachments.get(attachment.ownerId) ?? new Map<string, Attachment>()
+      owned.set(attachment.id, attachment)
+      attachments.set(attachment.ownerId, owned)
+    },
+    async delete(ownerId, attachmentId) {
+      attachments.get(ownerId)?.delete(attachmentId)
+    },
+  }
+
+  return {
+    drafts: {
+      async list() {
+        const all = [...drafts.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        return { drafts: all, quarantined: 0 }
+      },
+      async get(id) {
+        const draft = drafts.get(id)
+        return draft ? { status: "ok", data: draft } : { status: "missing" }
+      },
+      async save(draft) {
+        const saved: Draft = { ...draft, updatedAt: new Date().toISOString() }
+        drafts.set(draft.id, saved)
+        return saved
+      },
+      async restore(draft) {
+        drafts.set(draft.id, draft)
+      },
+      async delete(id) {
+        drafts.delete(id)
+      },
+    },
+    applications: {
+      async submit(form, draftId) {
+        return submitApplication(buildingPermitSchema.parse(form), draftId, {
+          attachments: attachmentRepository,
+          async municipalityCode(municipality) {
+            return claimMunicipalityCode(municipalityCodes, municipality)
+          },
+          nextSequence,
+          async exists(id) {
+            return applications.has(id)
+          },
+          async save(application) {
+            saveApplication(application)
+          },
+        })
+      },
+      async get(applicationId) {
+        return applications.get(applicationId) ?? null
+      },
+      async list() {
+        return [...applications.values()].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+      },
+      async restore(application) {
+        applications.set(application.applicationId, application)
+      },
+    },
+    attachments: attachmentRepository,
+    events: {
+      async list(applicationId) {
+        return applications.get(applicationId)?.statusHistory ?? []
+      },
+      async record(applicationId, to, details) {
+        const updated = transitionApplication(requireApplication(applicationId), to, details)
+        applications.set(applicationId, updated)
+        return updated
+      },
+    },
+    payments: {
+      async pay(applicationId, request) {
+        return saveApplication(await payApplication(requireApplication(applicationId), request, payments))
+      },
+      async refresh(applicationId) {
+        return saveApplication(await refreshPayment(requireApplication(applicationId), payments))
+      },
+      async refund(applicationId, request) {
+        return saveApplication(await refundApplication(requireApplication(applicationId), request, payments))
+      },
+    },
+  }
+}
@@ -0,0 +1,63 @@
+import type {
+  Application,
+  ApplicationStatus,
+  Attachment,
+  BuildingPermitForm,
+  Draft,
+  StatusTransition,
+} from "../application"
+import type { CardDetails } from "../payments/card"
+
+export type RecordLoad<T> =
+  | { status: "missing" }
+  | { status: "ok"; data: T }
+  | { status: "quarantined"; reason: string }
+
+export interface DraftRepository {
+  list(): Promise<{ drafts: Draft[]; quarantined: number }>
+  get(id: string): Promise<RecordLoad<Draft>>
+  save(draft: Omit<Draft, "updatedAt">): Promise<Draft>
+  // Stores a draft exactly as given, e.g. from an imported bundle
+  restore(draft: Draft): Promise<void>
+  delete(id: string): Promise<void>
+}
+
+export interface ApplicationRepository {
+  // Validates the form, assigns an application number, starts the status
+  // history and moves the draft's documents onto the application
+  submit(form: BuildingPermitForm, draftId: string): Promise<Application>
+  get(applicationId: string): Promise<Application | null>
+  // Applications this browser knows about: everything stored locally, or those
+  // submitted from or imported into this browser in server mode
+  list(): Promise<Application[]>
+  restore(application: Application): Promise<void>
+}
+
+export interface AttachmentRepository {
+  list(ownerId: string): Promise<Attachment[]>
+  save(attachment: Attachment): Promise<void>
+  delete(ownerId: string, attachmentId: string): Promise<void>
+}
+
+export interface EventRepository {
+  list(applicationId: string): Promise<StatusTransition[]>
+  // Moves the application to `to` if the lifecycle allows it and records who did
+  // it. The server ignores `actor` and records the authenticated staff member.
+  record(applicationId: string, to: ApplicationStatus, details: { actor: string; note?: string }): Promise<Application>
+}
+
+// Fee payments; see lib/application-payment.ts. Each returns the updated application.
+export interface PaymentRepository {
+  pay(applicationId: string, request: { card: CardDetails; idempotencyKey: string }): Promise<Application>
+  // Records how a pending payment settled, if it has
+  refresh(applicationId: string): Promise<Application>
+  refund(applicationId: string, request: { reason: string; idempotencyKey: string }): Promise<Application>
+}
+
+export interface PermitRepository {
+  drafts: DraftRepository
+  applications: ApplicationRepository
+  attachments: AttachmentRepository
+  events: EventRepository
+  payments: PaymentRepository
+}
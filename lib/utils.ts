@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { z } from "zod"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -39,6 +40,11 @@ export function inRange(n: number, min: number, max: number): boolean {
   return n >= min && n <= max
 }
 
+// Dollars and cents, e.g. "$1,234.50"
+export function formatDollars(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" })
+}
+
 // ---------- Date Helpers ----------
 export function isValidDate(d: Date): boolean {
   return d instanceof Date && !isNaN(d.getTime())
@@ -160,3 +166,15 @@ export function formatUSPhone(digits: string): string {
   const c = digits.slice(6)
   return `(${a}) ${b}-${c}`
 }
+
+// ---------- Data Files ----------
+// Checks a bundled JSON data file against its schema. The files ship with the
+// build, so a malformed one is a build problem and throws rather than being
+// reported to the user; callers validate once on first use and keep the result.
+export function loadValidatedJson<T extends z.ZodType>(schema: T, data: unknown, path: string): z.infer<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`${path} is malformed: ${z.prettifyError(parsed.error)}`)
+  }
+  return parsed.data
+}
@@ -0,0 +1,103 @@
+import type { z } from "zod"
+
+// Every persisted record is wrapped in an envelope stamped with the schema
+// version it was written with. Records written before versioning existed are
+// bare JSON dumps and are treated as version 0.
+export interface VersionedRecord<T> {
+  schemaVersion: number
+  savedAt: string
+  data: T
+}
+
+// Upgrades data written at version N to version N + 1. The data is whatever
+// was stored, so a migration narrows it before reading from it.
+export type Migration = (data: unknown) => unknown
+
+// The fields of a stored object. Anything else throws, which fails the migration.
+export function recordFields(data: unknown): Record<string, unknown> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`expected an object, found ${data === null ? "null" : Array.isArray(data) ? "an array" : typeof data}`)
+  }
+  return data as Record<string, unknown>
+}
+
+export interface RecordType<T> {
+  kind: string
+  version: number
+  schema: z.ZodType<T>
+  migrations: Record<number, Migration>
+}
+
+export type RecordReadResult<T> =
+  | { ok: true; data: T; migrated: boolean }
+  | { ok: false; reason: string }
+
+export function defineRecordType<T>(type: RecordType<T>): RecordType<T> {
+  for (let v = 0; v < type.version; v++) {
+    if (!type.migrations[v]) {
+      throw new Error(`Record type "${type.kind}" is missing a migration from version ${v}`)
+    }
+  }
+  return type
+}
+
+export function stampRecord<T>(type: RecordType<T>, data: T, now = new Date()): VersionedRecord<T> {
+  return { schemaVersion: type.version, savedAt: now.toISOString(), data }
+}
+
+function isEnvelope(raw: unknown): raw is VersionedRecord<unknown> {
+  return (
+    typeof raw === "object" &&
+    raw !== null &&
+    typeof (raw as VersionedRecord<unknown>).schemaVersion === "number" &&
+    "data" in raw
+  )
+}
+
+export function readRecord<T>(type: RecordType<T>, raw: unknown): RecordReadResult<T> {
+  let version = 0
+  let data: unknown = raw
+  if (isEnvelope(raw)) {
+    version = raw.schemaVersion
+    data = raw.data
+  }
+
+  if (!Number.isInteger(version) || version < 0) {
+    return { ok: false, reason: `Invalid ${type.kind} schema version ${version}` }
+  }
+  if (version > type.version) {
+    return {
+      ok: false,
+      reason: `${type.kind} was saved by a newer version (v${version}, this app reads up to v${type.version})`,
+    }
+  }
+
+  const migrated = version < type.version
+  try {
+    for (let v = version; v < type.version; v++) {
+      data = type.migrations[v](data)
+    }
+  } catch (error) {
+    return { ok: false, reason: `Migrating ${type.kind} from v${version} failed: ${(error as Error).message}` }
+  }
+
+  const parsed = type.schema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return {
+      ok: false,
+      reason: `${type.kind} does not match schema v${type.version}: ${issue.path.join(".") || "(root)"} ${issue.message}`,
+    }
+  }
+  return { ok: true, data: parsed.data, migrated }
+}
+
+export function parseRecord<T>(type: RecordType<T>, json: string): RecordReadResult<T> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    return { ok: false, reason: `${type.kind} is not valid JSON` }
+  }
+  return readRecord(type, raw)
+}
@@ -0,0 +1,648 @@
+import type { Path } from "react-hook-form"
+import { buildingPermitSchema, PROJECT_TYPES, type Attachment, type BuildingPermitForm } from "./application"
+import { missingDocuments } from "./attachments"
+import { CONTACT_METHODS, US_STATE_CODES } from "./contact"
+import { chargesByArea } from "./fees"
+import { APPLICANT_RELATIONSHIPS, applicantIsAgent, PARTY_ROLE_LABELS, type PartyRole } from "./parties"
+import {
+  DECK_ATTACHMENT_TYPES,
+  detailSectionFor,
+  PANEL_CHANGES,
+  POOL_BARRIER_TYPES,
+  SERVICE_AMPERAGES,
+  type ProjectDetailSection,
+} from "./project-details"
+import { formatScheduleDate, workAlreadyBegun } from "./schedule"
+import { ATTESTATIONS, type AttestationId } from "./signature"
+
+// The permit wizard is described entirely by WIZARD_STEPS: the page renders
+// each step's fields from it, validates a step by triggering its fields, and
+// builds the review summary from the same entries. Validation rules themselves
+// live in buildingPermitSchema; every schema field must appear in exactly one step.
+// Sections hold follow-up questions that only apply to some answers, such as
+// the pool questions shown once "Pool Installation" is chosen.
+
+export type FieldName = Path<BuildingPermitForm>
+
+// "pa-zip" is a ZIP code checked against Pennsylvania that fills in the
+// municipality and county fields next to it; "phone" tidies itself into
+// (XXX) XXX-XXXX once complete; "hic" looks a contractor registration up in the
+// registry; "checkbox" holds a boolean and uses its label as the statement
+// being confirmed; "date" is a calendar picker holding a "YYYY-MM-DD" string;
+// "signature" is a typed or drawn signature pad that also sets signature.method;
+// "cost-breakdown" is the line-item table for costBreakdown
+export type FieldWidget =
+  | "text"
+  | "textarea"
+  | "select"
+  | "number"
+  | "email"
+  | "phone"
+  | "pa-zip"
+  | "hic"
+  | "checkbox"
+  | "date"
+  | "signature"
+  | "cost-breakdown"
+
+export interface FieldDefinition {
+  name: FieldName
+  label: string
+  widget: FieldWidget
+  required?: boolean
+  placeholder?: string
+  // Help text shown under the input
+  description?: string
+  options?: readonly string[]
+  inputProps?: { min?: string; step?: string }
+  // Advisory shown under the field and in the review; it doesn't block the step
+  warning?: (values: BuildingPermitForm) => string | null
+  review?: {
+    label?: string
+    format?: (value: unknown) => string
+    fullWidth?: boolean
+    hideWhenEmpty?: boolean
+  }
+}
+
+export interface FieldSection {
+  id: string
+  title: string
+  description?: string
+  // Omit to always show the section
+  visibleWhen?: (values: BuildingPermitForm) => boolean
+  fields: FieldDefinition[]
+}
+
+export interface StepDefinition {
+  id: string
+  title: string
+  description: string
+  fields: FieldDefinition[]
+  sections?: FieldSection[]
+  // Shows the plan and document uploads instead of inputs
+  isAttachments?: boolean
+  // Shows the generated summary of the steps before it instead of inputs
+  isReview?: boolean
+}
+
+export function formatCurrency(value: unknown): string {
+  return `$${Number.parseFloat(typeof value === "string" && value ? value : "0").toLocaleString()}`
+}
+
+function withUnit(unit: string) {
+  return (value: unknown) => (typeof value === "string" && value ? `${Number(value).toLocaleString()} ${unit}` : "")
+}
+
+// Name, company, phone and email for one of the parties in lib/parties.ts
+function partyFields(
+  role: PartyRole,
+  options: { required: boolean; nameLabel: string; namePlaceholder: string; reviewPrefix?: string },
+): FieldDefinition[] {
+  const prefix = options.reviewPrefix ?? ""
+  const hideWhenEmpty = !options.required
+  return [
+    {
+      name: `parties.${role}.name`,
+      label: options.nameLabel,
+      widget: "text",
+      required: options.required,
+      placeholder: options.namePlaceholder,
+      review: { label: `${prefix}Name`, hideWhenEmpty },
+    },
+    {
+      name: `parties.${role}.company`,
+      label: "Company",
+      widget: "text",
+      placeholder: "Company or organization (optional)",
+      review: { label: `${prefix}Company`, hideWhenEmpty: true },
+    },
+    {
+      name: `parties.${role}.phone`,
+      label: "Phone Number",
+      widget: "phone",
+      required: options.required,
+      placeholder: "(717) 555-0123",
+      review: { label: `${prefix}Phone`, hideWhenEmpty },
+    },
+    {
+      name: `parties.${role}.email`,
+      label: "Email Address",
+      widget: "email",
+      required: options.required,
+      placeholder: "name@example.com",
+      review: { label: `${prefix}Email`, hideWhenEmpty },
+    },
+  ]
+}
+
+// Floor area for area-based fees; see chargesByArea in lib/fees.ts
+function squareFootageField(required: boolean): FieldDefinition {
+  return {
+    name: "squareFootage",
+    label: "Project Area (square feet)",
+    widget: "number",
+    required,
+    placeholder: required ? "e.g., 1200" : "Optional",
+    inputProps: { min: "0", step: "1" },
+    description: "Floor area being built, added or altered; used to calculate permit fees",
+    review: { label: "Project Area", format: withUnit("sq ft"), hideWhenEmpty: !required },
+  }
+}
+
+function attestationField(id: AttestationId): FieldDefinition {
+  return { name: `signature.attestations.${id}`, label: ATTESTATIONS[id], widget: "checkbox", required: true }
+}
+
+function forProjectType(section: ProjectDetailSection) {
+  return (values: BuildingPermitForm) => detailSectionFor(values.projectType) === section
+}
+
+export const WIZARD_STEPS: StepDefinition[] = [
+  {
+    id: "applicant",
+    title: "Applicant Information",
+    description: "Who is applying and who owns the property",
+    fields: [
+      ...partyFields("applicant", {
+        required: true,
+        nameLabel: "Full Name of Applicant",
+        reviewPrefix: "Applicant ",
+        namePlaceholder: "Enter your full legal name",
+      }),
+      {
+        name: "parties.applicant.relationship",
+        label: "Your Relationship to the Property",
+        widget: "select",
+        required: true,
+        options: APPLICANT_RELATIONSHIPS,
+        placeholder: "Select how you are connected to the property",
+        description: "Agents and contractors may apply on the owner's behalf with their authorization",
+        review: { label: "Relationship to Property" },
+      },
+    ],
+    sections: [
+      {
+        id: "owner",
+        title: PARTY_ROLE_LABELS.owner,
+        description: "The owner of record for the property",
+        visibleWhen: (values) => applicantIsAgent(values.parties),
+        fields: [
+          ...partyFields("owner", { required: true, nameLabel: "Owner's Full Name", namePlaceholder: "Owner's full legal name" }),
+          {
+            name: "parties.ownerAuthorized",
+            label:
+              "I confirm that the property owner has authorized me to apply for this permit on their behalf and can provide written authorization on request",
+            widget: "checkbox",
+            required: true,
+            review: { label: "Owner Authorization", format: (value) => (value ? "Confirmed" : "Not confirmed") },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "contact",
+    title: "Contact Details",
+    description: "How we reach you about this application",
+    fields: [
+      {
+        name: "contact.preferredMethod",
+        label: "Preferred Contact Method",
+        widget: "select",
+        required: true,
+        options: CONTACT_METHODS,
+        placeholder: "How should we send updates?",
+        review: { label: "Preferred Contact" },
+      },
+    ],
+    sections: [
+      {
+        id: "mailing-address",
+        title: "Mailing Address",
+        description: "Where permit documents should be mailed; this can differ from the property address",
+        fields: [
+          {
+            name: "contact.mailingAddress.street",
+            label: "Street Address",
+            widget: "text",
+            required: true,
+            placeholder: "123 Main Street",
+          },
+          {
+            name: "contact.mailingAddress.unit",
+            label: "Unit / Suite",
+            widget: "text",
+            placeholder: "Apt 2B (optional)",
+            review: { label: "Unit", hideWhenEmpty: true },
+          },
+          {
+            name: "contact.mailingAddress.city",
+            label: "City",
+            widget: "text",
+            required: true,
+            placeholder: "Harrisburg",
+          },
+          {
+            name: "contact.mailingAddress.state",
+            label: "State",
+            widget: "select",
+            required: true,
+            options: US_STATE_CODES,
+            placeholder: "Select a state",
+          },
+          {
+            name: "contact.mailingAddress.zip",
+            label: "ZIP Code",
+            widget: "text",
+            required: true,
+            placeholder: "17101",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "project",
+    title: "Property & Project",
+    description: "Property and project information",
+    fields: [
+      {
+        name: "propertyAddress.street",
+        label: "Street Address",
+        widget: "text",
+        required: true,
+        placeholder: "123 Main Street",
+        description: "Address where the construction work will be performed",
+      },
+      {
+        name: "propertyAddress.unit",
+        label: "Unit / Suite",
+        widget: "text",
+        placeholder: "Apt 2B (optional)",
+        review: { label: "Unit", hideWhenEmpty: true },
+      },
+      {
+        name: "propertyAddress.zip",
+        label: "ZIP Code",
+        widget: "pa-zip",
+        required: true,
+        placeholder: "17101",
+        description: "The property must be in Pennsylvania",
+        review: { label: "ZIP Code" },
+      },
+      {
+        name: "propertyAddress.municipality",
+        label: "Municipality",
+        widget: "text",
+        required: true,
+        placeholder: "Filled in from the ZIP code",
+        description: "City, borough or township; correct it if the postal name differs",
+      },
+      {
+        name: "propertyAddress.county",
+        label: "County",
+        widget: "text",
+        required: true,
+        placeholder: "Dauphin",
+      },
+      {
+        name: "projectType",
+        label: "Project Type",
+        widget: "select",
+        required: true,
+        options: PROJECT_TYPES,
+        placeholder: "Select the type of construction project",
+        description: "Choose the category that best describes your construction project",
+      },
+      {
+        name: "projectDescription",
+        label: "Project Description",
+        widget: "textarea",
+        required: true,
+        placeholder:
+          "Provide a detailed description of the proposed construction work, including materials, dimensions, and scope...",
+        description: "Detailed description of the proposed work (minimum 10 characters)",
+        review: { fullWidth: true },
+      },
+    ],
+    sections: [
+      {
+        id: "pool",
+        title: "Pool Details",
+        description: "Pools deeper than 24 inches need a compliant safety barrier",
+        visibleWhen: forProjectType("pool"),
+        fields: [
+          {
+            name: "projectDetails.pool.maxDepthFeet",
+            label: "Maximum Water Depth (feet)",
+            widget: "number",
+            required: true,
+            placeholder: "8",
+            inputProps: { min: "0", step: "0.5" },
+            review: { label: "Maximum Depth", format: withUnit("ft") },
+          },
+          {
+            name: "projectDetails.pool.volumeGallons",
+            label: "Pool Volume (gallons)",
+            widget: "number",
+            required: true,
+            placeholder: "20000",
+            inputProps: { min: "0", step: "1" },
+            review: { label: "Volume", format: withUnit("gal") },
+          },
+          {
+            name: "projectDetails.pool.barrierType",
+            label: "Safety Barrier",
+            widget: "select",
+            required: true,
+            options: POOL_BARRIER_TYPES,
+            placeholder: "Select the barrier around the pool",
+          },
+        ],
+      },
+      {
+        id: "deck",
+        title: "Deck Details",
+        description: "Decks more than 30 inches above grade require guards",
+        visibleWhen: forProjectType("deck"),
+        fields: [
+          {
+            name: "projectDetails.deck.heightAboveGradeInches",
+            label: "Height Above Grade (inches)",
+            widget: "number",
+            required: true,
+            placeholder: "36",
+            inputProps: { min: "0", step: "1" },
+            description: "Measured from the walking surface to the ground at its highest point",
+            review: { label: "Height Above Grade", format: withUnit("in") },
+          },
+          {
+            name: "projectDetails.deck.squareFootage",
+            label: "Deck Area (square feet)",
+            widget: "number",
+            required: true,
+            placeholder: "200",
+            inputProps: { min: "0", step: "1" },
+            review: { label: "Deck Area", format: withUnit("sq ft") },
+          },
+          {
+            name: "projectDetails.deck.attachment",
+            label: "Support",
+            widget: "select",
+            required: true,
+            options: DECK_ATTACHMENT_TYPES,
+            placeholder: "Select how the deck is supported",
+          },
+        ],
+      },
+      {
+        id: "electrical",
+        title: "Electrical Details",
+        visibleWhen: forProjectType("electrical"),
+        fields: [
+          {
+            name: "projectDetails.electrical.serviceAmperage",
+            label: "Service Size (amps)",
+            widget: "select",
+            required: true,
+            options: SERVICE_AMPERAGES,
+            placeholder: "Select the electrical service size",
+            review: { label: "Service Size", format: withUnit("A") },
+          },
+          {
+            name: "projectDetails.electrical.panelChange",
+            label: "Panel Work",
+            widget: "select",
+            required: true,
+            options: PANEL_CHANGES,
+            placeholder: "Select the panel work involved",
+          },
+        ],
+      },
+      // Required when the fee schedule charges the project type by area
+      {
+        id: "size",
+        title: "Project Size",
+        visibleWhen: (values) => detailSectionFor(values.projectType) !== "deck" && chargesByArea(values.projectType),
+        fields: [squareFootageField(true)],
+      },
+      {
+        id: "size-optional",
+        title: "Project Size",
+        visibleWhen: (values) => detailSectionFor(values.projectType) !== "deck" && !chargesByArea(values.projectType),
+        fields: [squareFootageField(false)],
+      },
+      {
+        id: "schedule",
+        title: "Project Schedule",
+        description: "When you expect the work to start and finish",
+        fields: [
+          {
+            name: "schedule.proposedStart",
+            label: "Proposed Start Date",
+            widget: "date",
+            required: true,
+            placeholder: "Pick a start date",
+            review: { label: "Proposed Start", format: formatScheduleDate },
+            warning: (values) =>
+              workAlreadyBegun(values.schedule)
+                ? "Work already begun: this start date has passed. Work started without a permit may be subject to additional fees or inspection requirements."
+                : null,
+          },
+          {
+            name: "schedule.proposedCompletion",
+            label: "Proposed Completion Date",
+            widget: "date",
+            required: true,
+            placeholder: "Pick a completion date",
+            review: { label: "Proposed Completion", format: formatScheduleDate },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "cost",
+    title: "Cost & Contractor",
+    description: "Financial and contractor details",
+    fields: [
+      {
+        name: "estimatedCost",
+        label: "Estimated Project Cost",
+        widget: "number",
+        required: true,
+        placeholder: "25000",
+        inputProps: { min: "0", step: "0.01" },
+        description: "Total estimated cost of the project in USD (numbers only, no commas or dollar signs)",
+        review: { label: "Estimated Cost", format: formatCurrency },
+      },
+    ],
+    sections: [
+      {
+        id: "cost-breakdown",
+        title: "Cost Breakdown",
+        description: "Itemize the estimate; the line items must add up to the estimated cost",
+        fields: [
+          {
+            name: "costBreakdown",
+            label: "Line Items",
+            widget: "cost-breakdown",
+            required: true,
+            review: { fullWidth: true },
+          },
+        ],
+      },
+      {
+        id: "contractor",
+        title: PARTY_ROLE_LABELS.contractor,
+        description: "Leave blank if the owner is doing the work",
+        fields: [
+          ...partyFields("contractor", { required: false, nameLabel: "Contractor Name", namePlaceholder: "Contact person (optional)" }),
+          {
+            name: "contractorLicense",
+            label: "PA Home Improvement Contractor Number",
+            widget: "hic",
+            placeholder: "PA012345 (optional)",
+            description: "The contractor's PA HIC registration number, checked against the contractor registry",
+            review: { label: "HIC Number", hideWhenEmpty: true },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "documents",
+    title: "Plans & Documents",
+    description: "Site plans, drawings and specifications",
+    fields: [],
+    isAttachments: true,
+  },
+  {
+    id: "review",
+    title: "Review",
+    description: "Check each section and edit anything that needs fixing",
+    fields: [],
+    isReview: true,
+  },
+  {
+    id: "sign",
+    title: "Sign & Submit",
+    description: "Confirm the statements below and sign your application",
+    fields: [
+      attestationField("accurate"),
+      attestationField("codes"),
+      attestationField("inspections"),
+      {
+        name: "signature.signerName",
+        label: "Full Legal Name of Signer",
+        widget: "text",
+        required: true,
+        placeholder: "Enter your full legal name",
+      },
+      {
+        name: "signature.mark",
+        label: "Signature",
+        widget: "signature",
+        required: true,
+        description: "Type your name exactly as above, or draw your signature",
+      },
+    ],
+  },
+]
+
+export const FIRST_STEP_ID = WIZARD_STEPS[0].id
+
+export const REVIEW_STEP = WIZARD_STEPS.findIndex((step) => step.isReview) + 1
+
+export function stepNumber(stepId: string): number {
+  const index = WIZARD_STEPS.findIndex((step) => step.id === stepId)
+  return index === -1 ? 1 : index + 1
+}
+
+export function stepAt(stepNumber: number): StepDefinition {
+  return WIZARD_STEPS[Math.min(Math.max(stepNumber, 1), WIZARD_STEPS.length) - 1]
+}
+
+export function visibleSections(step: StepDefinition, values: BuildingPermitForm): FieldSection[] {
+  return (step.sections ?? []).filter((section) => section.visibleWhen?.(values) ?? true)
+}
+
+// The step's own fields plus those of its sections that apply to these values
+export function visibleFields(step: StepDefinition, values: BuildingPermitForm): FieldDefinition[] {
+  return [...step.fields, ...visibleSections(step, values).flatMap((section) => section.fields)]
+}
+
+export interface FieldIssue {
+  field: FieldDefinition
+  message: string
+}
+
+// What stops the step's visible fields passing buildingPermitSchema, one
+// message per field. The review step uses this to flag steps needing attention.
+export function stepIssues(step: StepDefinition, values: BuildingPermitForm): FieldIssue[] {
+  const result = buildingPermitSchema.safeParse(values)
+  if (result.success) return []
+  const issues: FieldIssue[] = []
+  for (const field of visibleFields(step, values)) {
+    const issue = result.error.issues.find((candidate) => {
+      const path = candidate.path.join(".")
+      return path === field.name || path.startsWith(`${field.name}.`)
+    })
+    if (issue) issues.push({ field, message: issue.message })
+  }
+  return issues
+}
+
+// The step to open when asked for `target`: the first earlier step that
+// doesn't pass validation, if any, so links and history can't skip ahead
+export function reachableStep(
+  target: number,
+  values: BuildingPermitForm,
+  attachments: Pick<Attachment, "category">[],
+): number {
+  const last = Math.min(Math.max(Math.trunc(target) || 1, 1), WIZARD_STEPS.length)
+  for (let number = 1; number < last; number++) {
+    const step = stepAt(number)
+    if (step.isReview) continue
+    const complete = step.isAttachments
+      ? missingDocuments(values.projectType, attachments).length === 0
+      : stepIssues(step, values).length === 0
+    if (!complete) return number
+  }
+  return last
+}
+
+// The wizard's address for a step; the draft is left out until it has been saved
+export function wizardUrl(draftId: string | null, step: number): string {
+  const params = new URLSearchParams()
+  if (draftId) params.set("draft", draftId)
+  params.set("step", String(step))
+  return `/new-application?${params}`
+}
+
+// Each name once: a field can appear in alternative sections of the same step
+function allFieldNames(step: StepDefinition): FieldName[] {
+  const fields = [...step.fields, ...(step.sections ?? []).flatMap((section) => section.fields)]
+  return [...new Set(fields.map((field) => field.name))]
+}
+
+// Catches a schema field being added without a matching wizard entry (or vice versa)
+function assertStepsCoverSchema() {
+  const schemaFields = Object.keys(buildingPermitSchema.shape)
+  const wizardFields: string[] = WIZARD_STEPS.flatMap(allFieldNames)
+  const topLevel = new Set(wizardFields.map((name) => name.split(".")[0]))
+  const missing = schemaFields.filter((name) => !topLevel.has(name))
+  const unknown = [...topLevel].filter((name) => !schemaFields.includes(name))
+  const repeated = wizardFields.filter((name, i) => wizardFields.indexOf(name) !== i)
+  if (missing.length || unknown.length || repeated.length) {
+    throw new Error(
+      `WIZARD_STEPS is out of sync with buildingPermitSchema (missing: ${missing.join(", ") || "none"}; ` +
+        `unknown: ${unknown.join(", ") || "none"}; repeated: ${repeated.join(", ") || "none"})`,
+    )
+  }
+}
+
+if (process.env.NODE_ENV !== "production") {
+  assertStepsCoverSchema()
+}
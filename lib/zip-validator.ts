@@ -1,11 +1,21 @@
 'use server';
 
+import { lookupPaZip, type PaZipPlace } from './pa-zip-codes';
+
 export async function validateUSZip(zipCode: string): Promise<{
 	valid: boolean;
 	city?: string;
+	county?: string;
 	state?: string;
+	// Every municipality the ZIP covers, when known from the bundled PA table
+	places?: PaZipPlace[];
 	error?: string;
 }> {
+	// The bundled table answers for PA ZIPs without a network round trip
+	const places = lookupPaZip(zipCode);
+	if (places.length > 0) {
+		return { valid: true, city: places[0].municipality, county: places[0].county, state: "PA", places };
+	}
 	try {
 		const response = await fetch(`https://api.zippopotam.us/us/${encodeURIComponent(zipCode)}`, {
 			method: "GET",